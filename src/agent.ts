@@ -8,14 +8,66 @@ import { v4 as uuidv4 } from 'uuid';
 import {
   Conversation,
   ComplexityLevel,
+  ModelTierName,
   AgentResponse,
   Logger,
   AppConfig,
   UsageStats,
+  AgentEventListener,
+  PendingApproval,
+  RequestBudget,
+  CostSummaryResponse,
+  ModelServedBy,
+  AnthropicTool,
 } from './types';
 import { AIClient } from './ai-client.interface';
 import { MCPClientManager, UserContext } from './mcp-client';
 import { QueryAnalyzer } from './query-analyzer';
+import { ConversationStore, InMemoryConversationStore } from './conversation-store';
+import { trimHistory, estimateMessageTokens } from './history-trimmer';
+import {
+  ConversationSummarizer,
+  buildPinnedSummary,
+  hasPinnedSummary,
+  PINNED_SUMMARY_MESSAGE_COUNT,
+} from './conversation-summarizer';
+import { ToolApprovalPolicy, ApprovalError } from './tool-approval';
+import { ToolArgumentValidator, formatViolations } from './tool-argument-validator';
+import { ToolResultBudget, READ_TOOL_RESULT_TOOL } from './tool-result-store';
+import { LocalToolRegistry, createDefaultLocalTools } from './local-tools';
+import { ResponseValidator, buildCorrectionPrompt } from './response-validator';
+import { RequestCancelledError, throwIfCancelled } from './request-cancellation';
+import { BUDGET_EXHAUSTED_ANSWER, BUDGET_EXHAUSTED_INSTRUCTION, checkBudget, resolveRequestBudget } from './request-budget';
+import { buildCostReport } from './model-pricing';
+import { CostLedger } from './cost-ledger';
+import { modelTiers } from './model-tiers';
+import {
+  CONTINUATION_PROMPT,
+  DEFAULT_MAX_CONTINUATIONS,
+  DEFAULT_MAX_TOKENS_CEILING,
+  chooseRecovery,
+  isTruncated,
+  nextMaxTokens,
+  stitchResponses,
+  toTruncatedAnswer,
+} from './response-continuation';
+
+/**
+ * Answer used when the final response has no text, since the API rejects empty assistant turns in history
+ */
+const EMPTY_ANSWER_TEXT = 'No answer was produced.';
+
+/**
+ * A request currently running for a conversation
+ */
+interface ActiveRequest {
+  controller: AbortController;
+  budget?: RequestBudget;
+  budgetExhausted?: boolean;  // Tools are no longer run; the next response is final
+  servedBy: Array<ModelServedBy & { iteration: number }>;  // One entry per model call, like usageBreakdown
+  tier?: ModelTierName;  // Model tier requested instead of the complexity level's tier
+  userMessage?: string;  // Message being answered (its numbers pass the accuracy check)
+}
 
 /**
  * DANI Agent
@@ -27,8 +79,16 @@ export class DANIAgent {
   private logger: Logger;
   private config: AppConfig;
   private queryAnalyzer?: QueryAnalyzer;
-  private conversations: Map<string, Conversation> = new Map();
+  private summarizer?: ConversationSummarizer;
+  private approvalPolicy: ToolApprovalPolicy;
+  private argumentValidator: ToolArgumentValidator;
+  private resultBudget: ToolResultBudget;
+  private localTools: LocalToolRegistry;
+  private responseValidator: ResponseValidator;
+  private costLedger: CostLedger;
+  private conversationStore: ConversationStore;
   private conversationUserContexts: Map<string, UserContext> = new Map();
+  private activeRequests: Map<string, ActiveRequest> = new Map();
   private cleanupInterval: NodeJS.Timeout | null = null;
 
   constructor(
@@ -36,13 +96,33 @@ export class DANIAgent {
     mcpManager: MCPClientManager,
     config: AppConfig,
     logger: Logger,
-    queryAnalyzer?: QueryAnalyzer
+    queryAnalyzer?: QueryAnalyzer,
+    conversationStore: ConversationStore = new InMemoryConversationStore()
   ) {
     this.aiClient = aiClient;
     this.mcpManager = mcpManager;
     this.config = config;
     this.logger = logger;
     this.queryAnalyzer = queryAnalyzer;
+    this.conversationStore = conversationStore;
+    this.costLedger = new CostLedger(conversationStore, logger);
+
+    this.approvalPolicy = new ToolApprovalPolicy(
+      config.approvalRequiredTools,
+      config.approvalForDestructiveTools
+    );
+    this.argumentValidator = new ToolArgumentValidator(logger);
+    this.resultBudget = new ToolResultBudget(
+      config.toolResultMaxChars ?? 20000,
+      config.toolResultBudgets,
+      config.toolResultPreviewChars
+    );
+    this.localTools = createDefaultLocalTools(this.resultBudget);
+    this.responseValidator = new ResponseValidator(logger);
+
+    if (config.summarizeEvictedHistory) {
+      this.summarizer = new ConversationSummarizer(aiClient, logger);
+    }
 
     // Start conversation cleanup timer
     this.startConversationCleanup();
@@ -57,18 +137,32 @@ export class DANIAgent {
     conversationId?: string,
     complexity?: ComplexityLevel,
     userContext?: UserContext,
-    providedMessages?: Array<{ role: 'user' | 'assistant'; content: string }>
+    providedMessages?: Array<{ role: 'user' | 'assistant'; content: string }>,
+    onEvent?: AgentEventListener,
+    signal?: AbortSignal,
+    budget?: RequestBudget,
+    tier?: ModelTierName
   ): Promise<AgentResponse> {
     // Get or create conversation
     const convId = conversationId || uuidv4();
-    const conversation = this.getOrCreateConversation(convId);
+    const conversation = await this.getOrCreateConversation(convId);
 
-    // If provided messages exist, replace the in-memory conversation history
+    // If provided messages exist, replace the stored conversation history
     if (providedMessages && providedMessages.length > 0) {
       conversation.messages = providedMessages.map(msg => ({
         role: msg.role,
         content: msg.content,
       }));
+      conversation.summary = undefined;
+      conversation.storedToolResults = undefined;
+
+      // The tool calls awaiting approval are not in the provided history, so they are dropped without
+      // refusal results (claimed in the store so a concurrent approve cannot still run them)
+      if (conversation.pendingApproval) {
+        await this.conversationStore.claimPendingApproval(convId, conversation.pendingApproval.approvalId);
+        conversation.pendingApproval = undefined;
+      }
+
       this.logger.info('Using provided conversation history from database', {
         conversationId: convId,
         messageCount: providedMessages.length,
@@ -118,11 +212,25 @@ export class DANIAgent {
       conversationId: convId,
       complexity: finalComplexity,
       complexitySource,
+      tier: tier || finalComplexity,
       messageLength: userMessage.length,
       historySize: conversation.messages.length,
     });
 
+    const request = this.beginRequest(
+      convId,
+      signal,
+      resolveRequestBudget(this.config.requestBudgets, finalComplexity, budget),
+      tier,
+      userMessage
+    );
+
     try {
+      // A new message while tools await approval counts as rejecting them
+      if (conversation.pendingApproval) {
+        this.abandonPendingApproval(conversation);
+      }
+
       // Add user message to conversation
       conversation.messages.push({
         role: 'user',
@@ -130,14 +238,15 @@ export class DANIAgent {
       });
 
       // Trim conversation history to control token usage
-      this.trimConversationHistory(conversation);
+      await this.trimConversationHistory(conversation);
 
       // Execute the agentic loop
-      const result = await this.agenticLoop(conversation, finalComplexity);
+      const result = await this.agenticLoop(conversation, finalComplexity, onEvent);
 
-      // Update conversation metadata
-      conversation.lastAccessedAt = new Date();
+      // Update conversation metadata and persist the full history
       conversation.model = result.model;
+      await this.saveConversation(conversation);
+      await this.costLedger.record(convId, userContext?.userId, result.usage, result.cost);
 
       return {
         ...result,
@@ -146,28 +255,51 @@ export class DANIAgent {
         complexitySource,
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.logger.error('Error processing message', {
-        conversationId: convId,
-        error: errorMessage,
+      if (error instanceof RequestCancelledError) {
+        this.logger.info('Message processing cancelled', { conversationId: convId });
+        this.closeCancelledTurn(conversation);
+      } else {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.logger.error('Error processing message', {
+          conversationId: convId,
+          error: errorMessage,
+        });
+      }
+
+      // Persist whatever history was built so the next request can continue from it
+      await this.saveConversation(conversation).catch((saveError) => {
+        this.logger.error('Failed to save conversation after error', {
+          conversationId: convId,
+          error: saveError instanceof Error ? saveError.message : String(saveError),
+        });
       });
       throw error;
+    } finally {
+      this.endRequest(convId, request);
     }
   }
 
   /**
    * Main agentic loop - handles tool use iterations
    * Recursively calls Claude until we get a final response
+   * When onEvent is provided, responses are streamed and progress is reported through it
    */
   private async agenticLoop(
     conversation: Conversation,
     complexity: ComplexityLevel,
+    onEvent?: AgentEventListener,
     iteration: number = 1,
     cumulativeUsage: UsageStats[] = [],
     toolCallDetailsAccumulator: import('./types').ToolCallDetail[] = [],
-    reasoningStepsAccumulator: import('./types').ReasoningStep[] = []
+    reasoningStepsAccumulator: import('./types').ReasoningStep[] = [],
+    accuracyCorrected: boolean = false
   ): Promise<AgentResponse> {
     const maxIterations = 10; // Prevent infinite loops
+    const request = this.activeRequests.get(conversation.id);
+    const signal = request?.controller.signal;
+
+    // Stop before spending more tokens on a request nobody is waiting for
+    throwIfCancelled(signal);
 
     if (iteration > maxIterations) {
       this.logger.warn('Max iterations reached in agentic loop', {
@@ -183,22 +315,20 @@ export class DANIAgent {
       messageCount: conversation.messages.length,
     });
 
-    // Get available tools from MCP servers
-    const tools = this.mcpManager.getAnthropicTools();
-
-    // Call Claude API
-    const response = await this.aiClient.sendMessage(
-      conversation.messages,
-      tools,
-      complexity
-    );
+    // Get available tools from MCP servers (categories loaded by this conversation only),
+    // plus built-in local tools (an MCP tool with the same name takes precedence)
+    const tools = this.mcpManager.getAnthropicTools(conversation.id);
+    const mcpToolNames = new Set(tools.map(tool => tool.name));
+    tools.push(...this.localTools.getAnthropicTools({ conversation })
+      .filter(tool => !mcpToolNames.has(tool.name)));
 
-    // Track usage for this iteration
-    const currentUsage = this.aiClient.extractUsageStats(response);
-    cumulativeUsage.push(currentUsage);
+    // Call Claude API (a response cut off by max_tokens is continued or retried first)
+    const { response, truncated } = await this.callModel(conversation, tools, complexity, iteration, cumulativeUsage, onEvent);
+    const currentUsage = cumulativeUsage[cumulativeUsage.length - 1];
+    const servedModels = request?.servedBy.map(entry => entry.model) || [];
 
-    // Check stop reason
-    if (this.aiClient.hasToolUse(response)) {
+    // Check stop reason (once the budget is used up, tool calls are ignored and the response is final)
+    if (this.aiClient.hasToolUse(response) && !request?.budgetExhausted) {
       // Extract tool uses
       const toolUses = this.aiClient.extractToolUses(response);
 
@@ -227,9 +357,71 @@ export class DANIAgent {
         content: response.content,
       });
 
+      // Out of budget: skip the tools and ask for a best-effort answer with what is known so far
+      const budgetReport = request?.budget && checkBudget(request.budget, cumulativeUsage, servedModels);
+      if (request && budgetReport && budgetReport.exceeded.length > 0) {
+        this.logger.warn('Request budget exhausted, requesting final answer', {
+          conversationId: conversation.id,
+          iteration,
+          exceeded: budgetReport.exceeded,
+          inputTokens: budgetReport.inputTokens,
+          outputTokens: budgetReport.outputTokens,
+          costUsd: budgetReport.costUsd,
+        });
+        request.budgetExhausted = true;
+
+        conversation.messages.push({
+          role: 'user',
+          content: [
+            ...toolUses.map(toolUse => ({
+              type: 'tool_result' as const,
+              tool_use_id: toolUse.id,
+              content: 'Not run: the budget for this request is used up.',
+              is_error: true,
+            })),
+            { type: 'text' as const, text: BUDGET_EXHAUSTED_INSTRUCTION },
+          ],
+        });
+
+        return this.agenticLoop(
+          conversation,
+          complexity,
+          onEvent,
+          iteration + 1,
+          cumulativeUsage,
+          toolCallDetailsAccumulator,
+          reasoningStepsAccumulator,
+          accuracyCorrected
+        );
+      }
+
+      // Pause the loop if any requested tool needs the user's approval
+      const gatedToolUses = toolUses.filter(toolUse =>
+        this.approvalPolicy.requiresApproval(toolUse.name, this.mcpManager.getTool(toolUse.name))
+      );
+      if (gatedToolUses.length > 0) {
+        return this.pauseForApproval(
+          conversation,
+          complexity,
+          iteration,
+          response,
+          toolUses,
+          gatedToolUses,
+          cumulativeUsage,
+          toolCallDetailsAccumulator,
+          reasoningStepsAccumulator
+        );
+      }
+
       // Execute all requested tools with user context
       const userContext = this.conversationUserContexts.get(conversation.id);
-      const { toolResults, toolDetails } = await this.executeTools(toolUses, userContext, iteration);
+      const { toolResults, toolDetails } = await this.executeTools(
+        toolUses,
+        userContext,
+        iteration,
+        onEvent,
+        conversation
+      );
 
       // Accumulate tool call details
       toolCallDetailsAccumulator.push(...toolDetails);
@@ -240,21 +432,35 @@ export class DANIAgent {
         content: toolResults,
       });
 
-      // Trim conversation history to control token usage
-      this.trimConversationHistory(conversation);
+      // Trim conversation history to control token usage; not during the accuracy correction pass,
+      // where the trimmer would take the correction prompt for the user's question and keep only what
+      // follows it (history is trimmed once the prompt is removed)
+      if (!accuracyCorrected) {
+        await this.trimConversationHistory(conversation);
+      }
 
       // Continue the loop with the tool results
       return this.agenticLoop(
         conversation,
         complexity,
+        onEvent,
         iteration + 1,
         cumulativeUsage,
         toolCallDetailsAccumulator,
-        reasoningStepsAccumulator
+        reasoningStepsAccumulator,
+        accuracyCorrected
       );
     } else {
-      // Final response received
-      const textContent = this.aiClient.extractTextContent(response);
+      // Final response received; tool calls ignored after the budget ran out are dropped since they
+      // never get results, as are blank text blocks, and a response without text is answered (and stored)
+      // with a fixed notice
+      const finalContent = response.content.filter(block =>
+        block.type !== 'tool_use' && (block.type !== 'text' || block.text.trim().length > 0)
+      );
+      const hasText = finalContent.some(block => block.type === 'text');
+      const textContent = hasText
+        ? this.aiClient.extractTextContent(response)
+        : (request?.budgetExhausted ? BUDGET_EXHAUSTED_ANSWER : EMPTY_ANSWER_TEXT);
       const thinkingContent = this.aiClient.extractThinkingContent(response);
 
       // Calculate total cumulative usage
@@ -269,11 +475,57 @@ export class DANIAgent {
         usageBreakdown: cumulativeUsage,
       });
 
-      // Add final response to conversation
-      conversation.messages.push({
+      // Add final response to conversation with its thinking blocks (and signatures) intact
+      const finalMessage: Anthropic.MessageParam = {
         role: 'assistant',
-        content: textContent,
-      });
+        content: hasText ? finalContent : textContent,
+      };
+      conversation.messages.push(finalMessage);
+
+      // Cross-check counts and percentages against the data the tools returned
+      const accuracyIssues = this.config.accuracyValidation === false
+        ? []
+        : this.responseValidator.validate(textContent, [
+          ...toolCallDetailsAccumulator.map(detail => detail.output),
+          ...(conversation.storedToolResults || []).map(stored => stored.content),
+        ], request?.userMessage);
+
+      // Report the budget if this request reached it (a correction would only spend more)
+      const budgetReport = request?.budget && checkBudget(request.budget, cumulativeUsage, servedModels);
+      const budgetExceeded = budgetReport && budgetReport.exceeded.length > 0 ? budgetReport : undefined;
+
+      if (accuracyIssues.length > 0 && this.config.accuracyCorrection && !accuracyCorrected && !budgetExceeded) {
+        this.logger.info('Requesting corrected response', {
+          conversationId: conversation.id,
+          issues: accuracyIssues.length,
+        });
+        onEvent?.({ type: 'correction', iteration, issues: accuracyIssues });
+
+        const correctionMessage: Anthropic.MessageParam = {
+          role: 'user',
+          content: buildCorrectionPrompt(accuracyIssues),
+        };
+        conversation.messages.push(correctionMessage);
+
+        const corrected = await this.agenticLoop(
+          conversation,
+          complexity,
+          onEvent,
+          iteration + 1,
+          cumulativeUsage,
+          toolCallDetailsAccumulator,
+          reasoningStepsAccumulator,
+          true
+        );
+
+        // Only the corrected answer stays in history, trimmed now that the correction prompt is gone
+        conversation.messages = conversation.messages.filter(
+          message => message !== finalMessage && message !== correctionMessage
+        );
+        await this.trimConversationHistory(conversation);
+
+        return corrected;
+      }
 
       // Get model from response
       const modelConfig = response.model;
@@ -288,17 +540,437 @@ export class DANIAgent {
         iterations: iteration,
         toolCallDetails: toolCallDetailsAccumulator.length > 0 ? toolCallDetailsAccumulator : undefined,
         reasoningSteps: reasoningStepsAccumulator.length > 0 ? reasoningStepsAccumulator : undefined,
+        accuracyIssues: accuracyIssues.length > 0 ? accuracyIssues : undefined,
+        accuracyCorrected: accuracyCorrected || undefined,
+        truncated: truncated || undefined,
+        budgetExceeded,
+        cost: buildCostReport(cumulativeUsage, servedModels),
+        servedBy: request?.servedBy,
+      };
+    }
+  }
+
+  /**
+   * Call the model (streaming deltas to the listener if there is one) and record usage per call
+   * A response cut off by max_tokens is continued with a follow-up turn, or retried with a larger
+   * max_tokens if it stopped inside a tool call, up to the configured limits
+   * Returns the complete response and whether it was still cut off (see toTruncatedAnswer)
+   */
+  private async callModel(
+    conversation: Conversation,
+    tools: AnthropicTool[],
+    complexity: ComplexityLevel,
+    iteration: number,
+    cumulativeUsage: UsageStats[],
+    onEvent?: AgentEventListener
+  ): Promise<{ response: Anthropic.Message; truncated: boolean }> {
+    const request = this.activeRequests.get(conversation.id);
+    const signal = request?.controller.signal;
+    const tier = request?.tier ?? complexity;
+    const maxContinuations = this.config.maxContinuations ?? DEFAULT_MAX_CONTINUATIONS;
+    const maxTokensCeiling = this.config.maxTokensCeiling ?? DEFAULT_MAX_TOKENS_CEILING;
+    // Once the budget is used up the model is asked for an answer without further tool calls
+    const toolChoice = request?.budgetExhausted ? 'none' : 'auto';
+
+    const send = async (messages: Anthropic.MessageParam[], maxTokens?: number): Promise<Anthropic.Message> => {
+      const response = onEvent
+        ? await this.aiClient.streamMessage(
+            messages,
+            tools,
+            tier,
+            (event) => onEvent({ ...event, iteration }),
+            signal,
+            maxTokens,
+            toolChoice
+          )
+        : await this.aiClient.sendMessage(messages, tools, tier, signal, maxTokens, toolChoice);
+
+      const usage = this.aiClient.extractUsageStats(response);
+      cumulativeUsage.push(usage);
+      request?.servedBy.push({ iteration, ...this.aiClient.extractServedBy(response) });
+      onEvent?.({ type: 'usage', iteration, usage });
+      return response;
+    };
+
+    let response = await send(conversation.messages);
+    let maxTokens: number | undefined;
+
+    for (let attempt = 1; isTruncated(response) && attempt <= maxContinuations; attempt++) {
+      const servedModels = request?.servedBy.map(entry => entry.model) || [];
+      if (request?.budget && checkBudget(request.budget, cumulativeUsage, servedModels).exceeded.length > 0) {
+        break;
+      }
+
+      const recovery = chooseRecovery(response);
+      if (recovery === 'retry') {
+        // Never ask for more than the model that served the call can produce
+        const servedModel = this.aiClient.extractServedBy(response).model;
+        const outputLimit = modelTiers.getOutputLimit(tier, servedModel);
+        maxTokens = nextMaxTokens(response, Math.min(maxTokensCeiling, outputLimit));
+        if (!maxTokens) {
+          break;
+        }
+      }
+
+      this.logger.info('Response cut off by max_tokens', {
+        conversationId: conversation.id,
+        iteration,
+        attempt,
+        recovery,
+        outputTokens: response.usage.output_tokens,
+        maxTokens,
+      });
+      onEvent?.({ type: 'truncated', iteration, recovery });
+
+      if (recovery === 'retry') {
+        response = await send(conversation.messages, maxTokens);
+      } else {
+        // The cut-off answer and the request to continue are sent but not kept in history
+        const partial = response;
+        const continuation = await send(
+          [
+            ...conversation.messages,
+            { role: 'assistant', content: partial.content },
+            { role: 'user', content: CONTINUATION_PROMPT },
+          ],
+          maxTokens
+        );
+        response = stitchResponses(partial, continuation);
+      }
+    }
+
+    if (!isTruncated(response)) {
+      return { response, truncated: false };
+    }
+
+    this.logger.warn('Response still cut off by max_tokens', {
+      conversationId: conversation.id,
+      iteration,
+      outputTokens: response.usage.output_tokens,
+    });
+    return { response: toTruncatedAnswer(response), truncated: true };
+  }
+
+  /**
+   * Stop the agentic loop and record the tool calls that need approval
+   * The assistant tool_use turn is already in history; its results are added on resume
+   */
+  private pauseForApproval(
+    conversation: Conversation,
+    complexity: ComplexityLevel,
+    iteration: number,
+    response: Anthropic.Message,
+    toolUses: Anthropic.ToolUseBlock[],
+    gatedToolUses: Anthropic.ToolUseBlock[],
+    cumulativeUsage: UsageStats[],
+    toolCallDetailsAccumulator: import('./types').ToolCallDetail[],
+    reasoningStepsAccumulator: import('./types').ReasoningStep[]
+  ): AgentResponse {
+    const approvalId = uuidv4();
+    const request = this.activeRequests.get(conversation.id);
+    const servedBy = request?.servedBy || [];
+    const requestedAt = new Date().toISOString();
+
+    conversation.pendingApproval = {
+      approvalId,
+      complexity,
+      tier: request?.tier,
+      iteration,
+      toolUses: toolUses.map(t => ({ id: t.id, name: t.name, input: t.input as Record<string, unknown> })),
+      gatedToolUseIds: gatedToolUses.map(t => t.id),
+      requestedAt,
+      budget: request?.budget,
+      usage: cumulativeUsage,
+      servedBy,
+      toolCallDetails: toolCallDetailsAccumulator,
+      reasoningSteps: reasoningStepsAccumulator,
+      userMessage: request?.userMessage,
+    };
+
+    const pendingApproval: PendingApproval = {
+      approvalId,
+      conversationId: conversation.id,
+      tools: gatedToolUses.map(t => ({
+        toolUseId: t.id,
+        toolName: t.name,
+        server: this.mcpManager.getToolServer(t.name),
+        arguments: t.input as Record<string, unknown>,
+      })),
+      requestedAt,
+    };
+
+    this.logger.info('Tool execution paused for user approval', {
+      conversationId: conversation.id,
+      iteration,
+      approvalId,
+      tools: gatedToolUses.map(t => t.name),
+    });
+
+    return {
+      response: this.aiClient.extractTextContent(response),
+      conversationId: conversation.id,
+      model: response.model,
+      usage: this.sumUsageStats(cumulativeUsage),
+      thinking: this.aiClient.extractThinkingContent(response),
+      usageBreakdown: cumulativeUsage,
+      iterations: iteration,
+      toolCallDetails: toolCallDetailsAccumulator.length > 0 ? toolCallDetailsAccumulator : undefined,
+      reasoningSteps: reasoningStepsAccumulator.length > 0 ? reasoningStepsAccumulator : undefined,
+      pendingApproval,
+      cost: buildCostReport(cumulativeUsage, servedBy.map(entry => entry.model)),
+      servedBy,
+    };
+  }
+
+  /**
+   * Approve or reject the tool calls a conversation is waiting on, then resume the agentic loop
+   * Rejected tools receive a refusal tool_result; ungated tools in the same turn always run
+   */
+  async resolveApproval(
+    conversationId: string,
+    approvalId: string,
+    approved: boolean,
+    userContext?: UserContext,
+    reason?: string,
+    onEvent?: AgentEventListener,
+    signal?: AbortSignal
+  ): Promise<AgentResponse> {
+    const conversation = await this.loadConversation(conversationId);
+    if (!conversation) {
+      throw new ApprovalError(`Conversation ${conversationId} not found`, 404);
+    }
+
+    const pending = conversation.pendingApproval;
+    if (!pending || pending.approvalId !== approvalId) {
+      throw new ApprovalError(`No pending approval ${approvalId} for conversation ${conversationId}`, 409);
+    }
+
+    // Claim the approval in the store before running anything, so a repeated or concurrent call
+    // (double-click, retry, another task) cannot run the same tools twice
+    if (!await this.conversationStore.claimPendingApproval(conversationId, approvalId)) {
+      throw new ApprovalError(`Approval ${approvalId} for conversation ${conversationId} was already resolved`, 409);
+    }
+    conversation.pendingApproval = undefined;
+
+    if (userContext) {
+      this.conversationUserContexts.set(conversationId, userContext);
+    }
+
+    this.logger.info(approved ? 'Tool execution approved' : 'Tool execution rejected', {
+      conversationId,
+      approvalId,
+      tools: pending.toolUses.filter(t => pending.gatedToolUseIds.includes(t.id)).map(t => t.name),
+      reason,
+    });
+
+    const request = this.beginRequest(
+      conversationId,
+      signal,
+      pending.budget ?? resolveRequestBudget(this.config.requestBudgets, pending.complexity),
+      pending.tier,
+      pending.userMessage
+    );
+
+    // The resumed request continues the paused one: its model calls count toward totals and the budget,
+    // and the tools it ran stay in the response details and the accuracy check
+    const cumulativeUsage = [...(pending.usage || [])];
+    const priorCalls = cumulativeUsage.length;
+    request.servedBy.push(...(pending.servedBy || []));
+
+    try {
+      const toolUses = pending.toolUses.map(t => ({ type: 'tool_use' as const, ...t }));
+      const toRun = approved ? toolUses : toolUses.filter(t => !pending.gatedToolUseIds.includes(t.id));
+
+      const { toolResults, toolDetails } = await this.executeTools(
+        toRun,
+        this.conversationUserContexts.get(conversationId),
+        pending.iteration,
+        onEvent,
+        conversation
+      );
+
+      // Keep tool results in the order the model requested them
+      const orderedResults = toolUses.map(toolUse =>
+        toolResults.find(r => r.tool_use_id === toolUse.id) || this.buildRefusalResult(toolUse.id, reason)
+      );
+
+      conversation.messages.push({
+        role: 'user',
+        content: orderedResults,
+      });
+
+      await this.trimConversationHistory(conversation);
+
+      const result = await this.agenticLoop(
+        conversation,
+        pending.complexity,
+        onEvent,
+        pending.iteration + 1,
+        cumulativeUsage,
+        [...(pending.toolCallDetails || []), ...toolDetails],
+        [...(pending.reasoningSteps || [])]
+      );
+
+      // The calls made before the pause were recorded when the paused response was returned
+      const resumedUsage = cumulativeUsage.slice(priorCalls);
+      conversation.model = result.model;
+      await this.saveConversation(conversation);
+      await this.costLedger.record(
+        conversationId,
+        this.conversationUserContexts.get(conversationId)?.userId,
+        this.sumUsageStats(resumedUsage),
+        buildCostReport(resumedUsage, request.servedBy.slice(priorCalls).map(entry => entry.model))
+      );
+
+      return {
+        ...result,
+        conversationId,
+        complexityDetected: pending.complexity,
       };
+    } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        this.logger.info('Resumed conversation cancelled', { conversationId });
+        this.closeCancelledTurn(conversation);
+      } else {
+        this.logger.error('Error resuming conversation after approval', {
+          conversationId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      await this.saveConversation(conversation).catch(() => undefined);
+      throw error;
+    } finally {
+      this.endRequest(conversationId, request);
+    }
+  }
+
+  /**
+   * Cancel the request currently running for a conversation
+   * Returns false if no request is in flight
+   */
+  cancelRequest(conversationId: string): boolean {
+    const request = this.activeRequests.get(conversationId);
+    if (!request) {
+      return false;
+    }
+
+    this.logger.info('Cancelling request', { conversationId });
+    request.controller.abort();
+    return true;
+  }
+
+  /**
+   * Register the in-flight request of a conversation so it can be cancelled by id
+   * The caller's signal (e.g. client disconnect) aborts it as well
+   */
+  private beginRequest(
+    conversationId: string,
+    signal?: AbortSignal,
+    budget?: RequestBudget,
+    tier?: ModelTierName,
+    userMessage?: string
+  ): ActiveRequest {
+    const controller = new AbortController();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', () => controller.abort(), { once: true });
+    }
+
+    const request: ActiveRequest = { controller, budget, servedBy: [], tier, userMessage };
+    this.activeRequests.set(conversationId, request);
+    return request;
+  }
+
+  /**
+   * Unregister a finished request (unless a newer request replaced it)
+   */
+  private endRequest(conversationId: string, request: ActiveRequest): void {
+    if (this.activeRequests.get(conversationId) === request) {
+      this.activeRequests.delete(conversationId);
+    }
+  }
+
+  /**
+   * Leave a cancelled turn in a state the model accepts on the next message:
+   * unanswered tool calls get cancellation results and the turn ends with an assistant message
+   */
+  private closeCancelledTurn(conversation: Conversation): void {
+    const last = conversation.messages[conversation.messages.length - 1];
+    if (last?.role === 'assistant' && Array.isArray(last.content)) {
+      const toolUses = last.content.filter((block): block is Anthropic.ToolUseBlockParam => block.type === 'tool_use');
+      if (toolUses.length > 0) {
+        conversation.messages.push({
+          role: 'user',
+          content: toolUses.map(toolUse => ({
+            type: 'tool_result' as const,
+            tool_use_id: toolUse.id,
+            content: 'The request was cancelled before this tool ran.',
+            is_error: true,
+          })),
+        });
+      }
+    }
+
+    if (conversation.messages[conversation.messages.length - 1]?.role === 'user') {
+      conversation.messages.push({
+        role: 'assistant',
+        content: 'The request was cancelled by the user before a response was completed.',
+      });
     }
   }
 
+  /**
+   * Close out a pending approval that the user moved past without deciding
+   * Adds refusal results plus a short assistant turn so roles keep alternating
+   */
+  private abandonPendingApproval(conversation: Conversation): void {
+    const pending = conversation.pendingApproval;
+    if (!pending) {
+      return;
+    }
+
+    this.logger.info('Pending tool approval abandoned by new message', {
+      conversationId: conversation.id,
+      approvalId: pending.approvalId,
+    });
+
+    conversation.messages.push(
+      {
+        role: 'user',
+        content: pending.toolUses.map(t => this.buildRefusalResult(t.id, 'the user sent a new message instead')),
+      },
+      {
+        role: 'assistant',
+        content: 'The requested action was not approved, so it was not performed.',
+      }
+    );
+    conversation.pendingApproval = undefined;
+  }
+
+  /**
+   * Build the tool_result returned to the model for a rejected tool call
+   */
+  private buildRefusalResult(toolUseId: string, reason?: string): Anthropic.ToolResultBlockParam {
+    return {
+      type: 'tool_result',
+      tool_use_id: toolUseId,
+      content: `The user did not approve this action${reason ? ` (${reason})` : ''}. `
+        + 'It was not executed. Do not retry it unless the user asks again.',
+      is_error: true,
+    };
+  }
+
   /**
    * Execute multiple tool calls in parallel
    */
   private async executeTools(
     toolUses: Anthropic.ToolUseBlock[],
     userContext?: UserContext,
-    iteration: number = 1
+    iteration: number = 1,
+    onEvent?: AgentEventListener,
+    conversation?: Conversation
   ): Promise<{
     toolResults: Anthropic.ToolResultBlockParam[];
     toolDetails: import('./types').ToolCallDetail[];
@@ -307,12 +979,57 @@ export class DANIAgent {
       const startTime = Date.now();
       const timestamp = new Date().toISOString();
 
+      onEvent?.({
+        type: 'tool_start',
+        iteration,
+        toolUseId: toolUse.id,
+        toolName: toolUse.name,
+        input: toolUse.input as Record<string, unknown>,
+      });
+
       try {
-        const result = await this.mcpManager.executeTool(
-          toolUse.name,
-          toolUse.input as Record<string, unknown>,
-          userContext
-        );
+        let result: { content: string; isError: boolean; server?: string };
+
+        const isLocal = !this.mcpManager.getToolServer(toolUse.name) && this.localTools.has(toolUse.name);
+        const tool = isLocal ? this.localTools.getTool(toolUse.name) : this.mcpManager.getTool(toolUse.name);
+
+        // Malformed arguments are reported back to the model without calling the tool
+        const violations = this.argumentValidator.validate(tool, toolUse.input);
+        if (violations) {
+          result = {
+            content: formatViolations(toolUse.name, violations),
+            isError: true,
+            server: isLocal ? 'local' : this.mcpManager.getToolServer(toolUse.name),
+          };
+        } else if (isLocal) {
+          result = {
+            ...await this.localTools.execute(toolUse.name, toolUse.input as Record<string, unknown>, { conversation }),
+            server: 'local',
+          };
+        } else {
+          result = await this.mcpManager.executeTool(
+            toolUse.name,
+            toolUse.input as Record<string, unknown>,
+            userContext,
+            conversation?.id,
+            conversation ? this.activeRequests.get(conversation.id)?.controller.signal : undefined
+          );
+        }
+
+        // Oversized results are stored with the conversation; the model gets a preview and a handle
+        // (pages of stored results are already bounded)
+        if (conversation && toolUse.name !== READ_TOOL_RESULT_TOOL) {
+          const content = this.resultBudget.apply(conversation, toolUse.id, toolUse.name, result.content);
+          if (content !== result.content) {
+            this.logger.info('Tool result exceeded budget and was stored', {
+              tool: toolUse.name,
+              conversationId: conversation.id,
+              size: result.content.length,
+              budget: this.resultBudget.getBudget(toolUse.name),
+            });
+          }
+          result = { ...result, content };
+        }
 
         const duration = Date.now() - startTime;
 
@@ -340,6 +1057,8 @@ export class DANIAgent {
           iteration,
         };
 
+        onEvent?.({ type: 'tool_finish', iteration, toolUseId: toolUse.id, detail: toolDetail });
+
         return { toolResult, toolDetail };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -368,6 +1087,8 @@ export class DANIAgent {
           iteration,
         };
 
+        onEvent?.({ type: 'tool_finish', iteration, toolUseId: toolUse.id, detail: toolDetail });
+
         return { toolResult, toolDetail };
       }
     });
@@ -381,29 +1102,59 @@ export class DANIAgent {
   }
 
   /**
-   * Trim conversation history to keep only the most recent messages
-   * This reduces token usage while maintaining conversation context
+   * Trim conversation history to the configured message count and token budget
+   * Tool use/result pairs are kept intact and history always starts on a plain user turn.
+   * When summarization is enabled, evicted turns are folded into the pinned summary block.
    */
-  private trimConversationHistory(conversation: Conversation): void {
+  private async trimConversationHistory(conversation: Conversation): Promise<void> {
     const maxMessages = this.config.maxConversationMessages;
+    const maxTokens = this.config.maxConversationTokens;
 
-    // If no limit is set or conversation is within limit, do nothing
-    if (!maxMessages || conversation.messages.length <= maxMessages) {
+    // If no limit is set, do nothing
+    if (!maxMessages && !maxTokens) {
       return;
     }
 
-    // Calculate how many messages to remove
-    const messagesToRemove = conversation.messages.length - maxMessages;
+    // The pinned summary block is never trimmed, but it counts toward the limits
+    const pinnedCount = hasPinnedSummary(conversation.messages) ? PINNED_SUMMARY_MESSAGE_COUNT : 0;
+    const pinned = conversation.messages.slice(0, pinnedCount);
+    const pinnedTokens = pinned.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0);
 
-    // Remove oldest messages (keeping newest ones)
-    const removedMessages = conversation.messages.splice(0, messagesToRemove);
+    const result = trimHistory(conversation.messages.slice(pinnedCount), {
+      maxMessages: maxMessages ? Math.max(maxMessages - pinnedCount, 1) : undefined,
+      maxTokens: maxTokens ? Math.max(maxTokens - pinnedTokens, 1) : undefined,
+    });
+
+    if (result.removedCount === 0) {
+      return;
+    }
+
+    conversation.messages = [...pinned, ...result.messages];
+    this.resultBudget.pruneStoredResults(conversation);
 
     this.logger.info('Trimmed conversation history', {
       conversationId: conversation.id,
-      removedCount: removedMessages.length,
+      removedCount: result.removedCount,
       remainingCount: conversation.messages.length,
+      estimatedTokens: result.estimatedTokens + pinnedTokens,
       maxMessages,
+      maxTokens,
     });
+
+    if (!this.summarizer) {
+      return;
+    }
+
+    try {
+      conversation.summary = await this.summarizer.summarize(conversation.summary, result.removed);
+      conversation.messages = [...buildPinnedSummary(conversation.summary), ...result.messages];
+    } catch (error) {
+      // Keep the previous summary; the evicted turns are simply dropped as before
+      this.logger.warn('Failed to summarize evicted conversation history', {
+        conversationId: conversation.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
   }
 
   /**
@@ -428,10 +1179,11 @@ export class DANIAgent {
   }
 
   /**
-   * Get or create a conversation
+   * Load a conversation from the store, or create a new one
+   * New conversations are persisted once the first message has been processed
    */
-  private getOrCreateConversation(conversationId: string): Conversation {
-    let conversation = this.conversations.get(conversationId);
+  private async getOrCreateConversation(conversationId: string): Promise<Conversation> {
+    let conversation = await this.loadConversation(conversationId);
 
     if (!conversation) {
       conversation = {
@@ -440,17 +1192,37 @@ export class DANIAgent {
         createdAt: new Date(),
         lastAccessedAt: new Date(),
       };
-      this.conversations.set(conversationId, conversation);
 
       this.logger.info('Created new conversation', {
         conversationId,
-        totalConversations: this.conversations.size,
       });
     }
 
     return conversation;
   }
 
+  /**
+   * Load a conversation from the store and restore its tool category scope
+   */
+  private async loadConversation(conversationId: string): Promise<Conversation | undefined> {
+    const conversation = await this.conversationStore.get(conversationId);
+
+    if (conversation?.loadedToolCategories) {
+      this.mcpManager.restoreScopeCategories(conversationId, conversation.loadedToolCategories);
+    }
+
+    return conversation;
+  }
+
+  /**
+   * Persist a conversation along with the tool categories it has loaded
+   */
+  private async saveConversation(conversation: Conversation): Promise<void> {
+    conversation.lastAccessedAt = new Date();
+    conversation.loadedToolCategories = this.mcpManager.getScopeCategories(conversation.id);
+    await this.conversationStore.save(conversation);
+  }
+
   /**
    * Start periodic cleanup of old conversations
    */
@@ -458,7 +1230,11 @@ export class DANIAgent {
     const cleanupIntervalMs = 5 * 60 * 1000; // 5 minutes
 
     this.cleanupInterval = setInterval(() => {
-      this.cleanupOldConversations();
+      this.cleanupOldConversations().catch((error) => {
+        this.logger.error('Failed to clean up old conversations', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
     }, cleanupIntervalMs);
 
     this.logger.info('Started conversation cleanup timer', {
@@ -469,42 +1245,56 @@ export class DANIAgent {
   /**
    * Remove conversations that haven't been accessed recently
    */
-  private cleanupOldConversations(): void {
+  private async cleanupOldConversations(): Promise<void> {
     const timeoutMs = this.config.conversationTimeoutMinutes * 60 * 1000;
-    const now = Date.now();
-    let removedCount = 0;
-
-    for (const [id, conversation] of this.conversations.entries()) {
-      const age = now - conversation.lastAccessedAt.getTime();
-      if (age > timeoutMs) {
-        this.conversations.delete(id);
-        removedCount++;
-      }
+    const cutoff = new Date(Date.now() - timeoutMs);
+
+    const removedIds = await this.conversationStore.deleteOlderThan(cutoff);
+
+    // User contexts carry credentials and are never persisted; drop them with their conversations
+    for (const id of removedIds) {
+      this.conversationUserContexts.delete(id);
+      this.mcpManager.releaseScope(id);
     }
 
-    if (removedCount > 0) {
+    if (removedIds.length > 0) {
       this.logger.info('Cleaned up old conversations', {
-        removed: removedCount,
-        remaining: this.conversations.size,
+        removed: removedIds.length,
+        remaining: await this.conversationStore.count(),
       });
     }
   }
 
+  /**
+   * Get the number of tool argument validation failures per tool
+   */
+  getToolValidationFailures(): Record<string, number> {
+    return this.argumentValidator.getFailureCounts();
+  }
+
+  /**
+   * Get token usage and cost per user and per conversation (kept by the conversation store)
+   */
+  async getCostSummary(filter?: { userId?: string; conversationId?: string }): Promise<CostSummaryResponse> {
+    return this.costLedger.getSummary(filter);
+  }
+
   /**
    * Get conversation count
    */
-  getConversationCount(): number {
-    return this.conversations.size;
+  async getConversationCount(): Promise<number> {
+    return this.conversationStore.count();
   }
 
   /**
    * Shutdown the agent
    */
-  shutdown(): void {
+  async shutdown(): Promise<void> {
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
       this.cleanupInterval = null;
     }
+    await this.conversationStore.close();
     this.logger.info('Agent shutdown complete');
   }
 }
@@ -4,17 +4,38 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import { ComplexityLevel, UsageStats, AnthropicTool } from './types';
+import { ModelTierName, UsageStats, AnthropicTool, ModelStreamEvent, ModelServedBy, ModelToolChoice } from './types';
 
 /**
  * Common interface that both AnthropicClient and BedrockClient implement
  */
 export interface AIClient {
+  /**
+   * Send a message; maxTokens replaces the tier's max_tokens for this call only, and
+   * toolChoice 'none' asks for an answer without tool calls
+   */
   sendMessage(
     messages: Anthropic.MessageParam[],
     tools: AnthropicTool[],
-    complexity?: ComplexityLevel,
-    retryCount?: number
+    tier?: ModelTierName,
+    signal?: AbortSignal,
+    maxTokens?: number,
+    toolChoice?: ModelToolChoice
+  ): Promise<Anthropic.Message>;
+
+  /**
+   * Stream a message, invoking onEvent for each text/thinking delta as it arrives.
+   * Resolves with the complete message once the stream ends.
+   * Both calls reject with a RequestCancelledError once the signal aborts.
+   */
+  streamMessage(
+    messages: Anthropic.MessageParam[],
+    tools: AnthropicTool[],
+    tier: ModelTierName | undefined,
+    onEvent: (event: ModelStreamEvent) => void,
+    signal?: AbortSignal,
+    maxTokens?: number,
+    toolChoice?: ModelToolChoice
   ): Promise<Anthropic.Message>;
 
   extractUsageStats(response: Anthropic.Message): UsageStats;
@@ -22,4 +43,9 @@ export interface AIClient {
   extractThinkingContent(response: Anthropic.Message): string | undefined;
   extractToolUses(response: Anthropic.Message): Anthropic.ToolUseBlock[];
   hasToolUse(response: Anthropic.Message): boolean;
+
+  /**
+   * Provider and model that produced a response returned by this client
+   */
+  extractServedBy(response: Anthropic.Message): ModelServedBy;
 }
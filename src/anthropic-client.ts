@@ -3,9 +3,21 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import { ComplexityLevel, ModelConfig, UsageStats, Logger, AnthropicTool } from './types';
-import { MODEL_CONFIG } from './config';
+import {
+  ModelTierName,
+  ModelToolChoice,
+  ModelConfig,
+  UsageStats,
+  Logger,
+  AnthropicTool,
+  ModelStreamEvent,
+  ModelServedBy,
+} from './types';
+import { INTERLEAVED_THINKING_BETA } from './config';
+import { modelTiers } from './model-tiers';
 import { AIClient } from './ai-client.interface';
+import { MessageStreamAccumulator } from './message-stream';
+import { RequestCancelledError, sleepUnlessCancelled } from './request-cancellation';
 
 /**
  * Anthropic Client Wrapper
@@ -17,26 +29,34 @@ export class AnthropicClient implements AIClient {
   private systemMessage: string;
   private maxRetries: number = 3;
   private cacheTTL?: '5m' | '1h';
+  private modelOverride?: Partial<ModelConfig>;
+  private interleavedThinking: boolean;
 
-  constructor(apiKey: string, systemMessage: string, logger: Logger, cacheTTL?: '5m' | '1h') {
+  /**
+   * @param modelOverride - Replaces settings of every model tier (used for fallback targets)
+   * @param interleavedThinking - Enable thinking between tool calls for levels with thinking enabled
+   */
+  constructor(
+    apiKey: string,
+    systemMessage: string,
+    logger: Logger,
+    cacheTTL?: '5m' | '1h',
+    modelOverride?: Partial<ModelConfig>,
+    interleavedThinking: boolean = false
+  ) {
     this.client = new Anthropic({ apiKey });
     this.systemMessage = systemMessage;
     this.logger = logger;
     this.cacheTTL = cacheTTL;
+    this.modelOverride = modelOverride;
+    this.interleavedThinking = interleavedThinking;
   }
 
   /**
-   * Get model configuration based on complexity level
-   */
-  private getModelConfig(complexity: ComplexityLevel = 'ANALYTICAL'): ModelConfig {
-    return MODEL_CONFIG[complexity];
-  }
-
-  /**
-   * Sleep for exponential backoff
+   * Get the model configuration of a tier (maxTokens raises the limit for a single call)
    */
-  private async sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private getModelConfig(tier: ModelTierName = 'ANALYTICAL', maxTokens?: number): ModelConfig {
+    return { ...modelTiers.getModelConfig(tier), ...this.modelOverride, ...(maxTokens && { max_tokens: maxTokens }) };
   }
 
   /**
@@ -45,15 +65,18 @@ export class AnthropicClient implements AIClient {
   async sendMessage(
     messages: Anthropic.MessageParam[],
     tools: AnthropicTool[],
-    complexity: ComplexityLevel = 'ANALYTICAL',
+    tier: ModelTierName = 'ANALYTICAL',
+    signal?: AbortSignal,
+    maxTokens?: number,
+    toolChoice: ModelToolChoice = 'auto',
     retryCount: number = 0
   ): Promise<Anthropic.Message> {
-    const modelConfig = this.getModelConfig(complexity);
+    const modelConfig = this.getModelConfig(tier, maxTokens);
 
     try {
       this.logger.info('Sending message to Claude', {
         model: modelConfig.model,
-        complexity,
+        tier,
         messageCount: messages.length,
         toolCount: tools.length,
         retryCount,
@@ -72,97 +95,19 @@ export class AnthropicClient implements AIClient {
       });
 
       // Build the request parameters
-      const cacheControl: any = { type: 'ephemeral' };
-      if (this.cacheTTL) {
-        cacheControl.ttl = this.cacheTTL;
-      }
-
-      const params: any = {
-        model: modelConfig.model,
-        max_tokens: modelConfig.max_tokens,
-        system: [
-          {
-            type: 'text',
-            text: this.systemMessage,
-            cache_control: cacheControl,
-          },
-        ],
-        messages,
-        tools: tools.length > 0 ? tools : undefined,
-      };
-
-      // Add thinking configuration for analytical queries
-      if (modelConfig.thinking && modelConfig.thinking.type === 'enabled') {
-        params.thinking = {
-          type: 'enabled',
-          budget_tokens: modelConfig.thinking.budget_tokens,
-        };
-      }
+      const params = this.buildRequestParams(messages, tools, modelConfig, toolChoice);
 
       // Make the API call
-      const response = await this.client.messages.create(params) as Anthropic.Message;
-
-      // Log cache performance
-      const usage = response.usage as any;
-      if (usage) {
-        const cacheReadTokens = usage.cache_read_input_tokens || 0;
-        const inputTokens = usage.input_tokens || 0;
-        const cacheHitRate = cacheReadTokens > 0
-          ? (cacheReadTokens / (inputTokens + cacheReadTokens)) * 100
-          : 0;
-
-        // Build cache breakdown info if available from nested objects
-        const cacheBreakdown: any = {};
-        if (usage.cache_creation?.ephemeral_5m_input_tokens !== undefined) {
-          cacheBreakdown.cache_creation_5m = usage.cache_creation.ephemeral_5m_input_tokens;
-        }
-        if (usage.cache_creation?.ephemeral_1h_input_tokens !== undefined) {
-          cacheBreakdown.cache_creation_1h = usage.cache_creation.ephemeral_1h_input_tokens;
-        }
-        if (usage.cache_read?.ephemeral_5m_input_tokens !== undefined) {
-          cacheBreakdown.cache_read_5m = usage.cache_read.ephemeral_5m_input_tokens;
-        }
-        if (usage.cache_read?.ephemeral_1h_input_tokens !== undefined) {
-          cacheBreakdown.cache_read_1h = usage.cache_read.ephemeral_1h_input_tokens;
-        }
-
-        this.logger.info('Claude API response received', {
-          model: modelConfig.model,
-          stopReason: response.stop_reason,
-          usage: response.usage,
-          cacheHitRate: `${cacheHitRate.toFixed(2)}%`,
-          ...(Object.keys(cacheBreakdown).length > 0 && { cacheBreakdown }),
-        });
+      const response = await this.client.messages.create(params, this.buildRequestOptions(modelConfig, signal)) as Anthropic.Message;
 
-        // Log response content details (at debug level)
-        this.logger.debug('Claude API response details', {
-          stopReason: response.stop_reason,
-          contentBlocks: response.content.map((block: any) => {
-            if (block.type === 'text') {
-              return {
-                type: 'text',
-                text: block.text.substring(0, 500) + (block.text.length > 500 ? '...' : '')
-              };
-            } else if (block.type === 'thinking') {
-              return {
-                type: 'thinking',
-                thinking: block.thinking?.substring(0, 200) + '...'
-              };
-            } else if (block.type === 'tool_use') {
-              return {
-                type: 'tool_use',
-                name: block.name,
-                id: block.id,
-                input: JSON.stringify(block.input).substring(0, 200) + '...'
-              };
-            }
-            return { type: block.type };
-          })
-        });
-      }
+      this.logResponse(response, modelConfig);
 
       return response;
     } catch (error) {
+      if (signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.logger.error('Claude API error', {
         error: errorMessage,
@@ -180,8 +125,8 @@ export class AnthropicClient implements AIClient {
             maxRetries: this.maxRetries,
           });
 
-          await this.sleep(backoffMs);
-          return this.sendMessage(messages, tools, complexity, retryCount + 1);
+          await sleepUnlessCancelled(backoffMs, signal);
+          return this.sendMessage(messages, tools, tier, signal, maxTokens, toolChoice, retryCount + 1);
         }
       }
 
@@ -190,6 +135,198 @@ export class AnthropicClient implements AIClient {
     }
   }
 
+  /**
+   * Stream a message from Claude, forwarding text and thinking deltas as they arrive
+   * Retries only if the stream fails before any delta was forwarded
+   */
+  async streamMessage(
+    messages: Anthropic.MessageParam[],
+    tools: AnthropicTool[],
+    tier: ModelTierName = 'ANALYTICAL',
+    onEvent: (event: ModelStreamEvent) => void,
+    signal?: AbortSignal,
+    maxTokens?: number,
+    toolChoice: ModelToolChoice = 'auto',
+    retryCount: number = 0
+  ): Promise<Anthropic.Message> {
+    const modelConfig = this.getModelConfig(tier, maxTokens);
+    let deltasForwarded = false;
+
+    try {
+      this.logger.info('Streaming message from Claude', {
+        model: modelConfig.model,
+        tier,
+        messageCount: messages.length,
+        toolCount: tools.length,
+        retryCount,
+      });
+
+      const params = this.buildRequestParams(messages, tools, modelConfig, toolChoice);
+      const stream = await this.client.messages.create(
+        { ...params, stream: true },
+        this.buildRequestOptions(modelConfig, signal)
+      ) as any;
+
+      const accumulator = new MessageStreamAccumulator();
+      for await (const event of stream) {
+        const delta = accumulator.handleEvent(event);
+        if (delta) {
+          deltasForwarded = true;
+          onEvent(delta);
+        }
+      }
+
+      const response = accumulator.finalMessage();
+      this.logResponse(response, modelConfig);
+
+      return response;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Claude streaming API error', {
+        error: errorMessage,
+        retryCount,
+        model: modelConfig.model,
+        deltasForwarded,
+      });
+
+      // Partial output has already reached the listener, so a retry would duplicate it
+      if (!deltasForwarded && retryCount < this.maxRetries && this.shouldRetry(error)) {
+        const backoffMs = Math.pow(2, retryCount) * 1000; // 1s, 2s, 4s
+        this.logger.warn(`Retrying Claude streaming API call after ${backoffMs}ms`, {
+          retryCount: retryCount + 1,
+          maxRetries: this.maxRetries,
+        });
+
+        await sleepUnlessCancelled(backoffMs, signal);
+        return this.streamMessage(messages, tools, tier, onEvent, signal, maxTokens, toolChoice, retryCount + 1);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Build Messages API request parameters (system message, sampling settings and thinking config included)
+   */
+  private buildRequestParams(
+    messages: Anthropic.MessageParam[],
+    tools: AnthropicTool[],
+    modelConfig: ModelConfig,
+    toolChoice: ModelToolChoice = 'auto'
+  ): any {
+    const cacheControl: any = { type: 'ephemeral' };
+    if (this.cacheTTL) {
+      cacheControl.ttl = this.cacheTTL;
+    }
+
+    const params: any = {
+      model: modelConfig.model,
+      max_tokens: modelConfig.max_tokens,
+      system: [
+        {
+          type: 'text',
+          text: this.systemMessage,
+          cache_control: cacheControl,
+        },
+      ],
+      messages,
+      tools: tools.length > 0 ? tools : undefined,
+      tool_choice: tools.length > 0 && toolChoice === 'none' ? { type: 'none' } : undefined,
+      temperature: modelConfig.temperature,
+      top_p: modelConfig.top_p,
+      stop_sequences: modelConfig.stop_sequences,
+    };
+
+    // Add thinking configuration for analytical queries
+    if (modelConfig.thinking && modelConfig.thinking.type === 'enabled') {
+      params.thinking = {
+        type: 'enabled',
+        budget_tokens: modelConfig.thinking.budget_tokens,
+      };
+    }
+
+    return params;
+  }
+
+  /**
+   * Build per-request options (abort signal, and the interleaved thinking beta header when it applies)
+   */
+  private buildRequestOptions(modelConfig: ModelConfig, signal?: AbortSignal): Anthropic.RequestOptions {
+    const interleaved = this.interleavedThinking && modelConfig.thinking?.type === 'enabled';
+    return {
+      signal,
+      ...(interleaved && { headers: { 'anthropic-beta': INTERLEAVED_THINKING_BETA } }),
+    };
+  }
+
+  /**
+   * Log cache performance and response content details
+   */
+  private logResponse(response: Anthropic.Message, modelConfig: ModelConfig): void {
+    // Log cache performance
+    const usage = response.usage as any;
+    if (usage) {
+      const cacheReadTokens = usage.cache_read_input_tokens || 0;
+      const inputTokens = usage.input_tokens || 0;
+      const cacheHitRate = cacheReadTokens > 0
+        ? (cacheReadTokens / (inputTokens + cacheReadTokens)) * 100
+        : 0;
+
+      // Build cache breakdown info if available from nested objects
+      const cacheBreakdown: any = {};
+      if (usage.cache_creation?.ephemeral_5m_input_tokens !== undefined) {
+        cacheBreakdown.cache_creation_5m = usage.cache_creation.ephemeral_5m_input_tokens;
+      }
+      if (usage.cache_creation?.ephemeral_1h_input_tokens !== undefined) {
+        cacheBreakdown.cache_creation_1h = usage.cache_creation.ephemeral_1h_input_tokens;
+      }
+      if (usage.cache_read?.ephemeral_5m_input_tokens !== undefined) {
+        cacheBreakdown.cache_read_5m = usage.cache_read.ephemeral_5m_input_tokens;
+      }
+      if (usage.cache_read?.ephemeral_1h_input_tokens !== undefined) {
+        cacheBreakdown.cache_read_1h = usage.cache_read.ephemeral_1h_input_tokens;
+      }
+
+      this.logger.info('Claude API response received', {
+        model: modelConfig.model,
+        stopReason: response.stop_reason,
+        usage: response.usage,
+        cacheHitRate: `${cacheHitRate.toFixed(2)}%`,
+        ...(Object.keys(cacheBreakdown).length > 0 && { cacheBreakdown }),
+      });
+
+      // Log response content details (at debug level)
+      this.logger.debug('Claude API response details', {
+        stopReason: response.stop_reason,
+        contentBlocks: response.content.map((block: any) => {
+          if (block.type === 'text') {
+            return {
+              type: 'text',
+              text: block.text.substring(0, 500) + (block.text.length > 500 ? '...' : '')
+            };
+          } else if (block.type === 'thinking') {
+            return {
+              type: 'thinking',
+              thinking: block.thinking?.substring(0, 200) + '...'
+            };
+          } else if (block.type === 'tool_use') {
+            return {
+              type: 'tool_use',
+              name: block.name,
+              id: block.id,
+              input: JSON.stringify(block.input).substring(0, 200) + '...'
+            };
+          }
+          return { type: block.type };
+        })
+      });
+    }
+  }
+
   /**
    * Determine if an error is retryable
    */
@@ -276,4 +413,11 @@ export class AnthropicClient implements AIClient {
   hasToolUse(response: Anthropic.Message): boolean {
     return response.stop_reason === 'tool_use' || this.extractToolUses(response).length > 0;
   }
+
+  /**
+   * Provider and model that produced the response
+   */
+  extractServedBy(response: Anthropic.Message): ModelServedBy {
+    return { provider: 'anthropic', model: response.model, failedOver: false };
+  }
 }
@@ -0,0 +1,141 @@
+/**
+ * Safe arithmetic evaluation
+ * Parses arithmetic expressions without eval: numbers, + - * / % ^, parentheses and a few functions
+ */
+
+/**
+ * Functions available in expressions
+ */
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+  round: (value: number, digits: number = 0) => {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+  },
+  percent: (part: number, total: number) => {
+    if (total === 0) {
+      throw new Error('Division by zero');
+    }
+    return (part / total) * 100;
+  },
+};
+
+/**
+ * Names of the functions available in expressions
+ */
+export const ARITHMETIC_FUNCTIONS = Object.keys(FUNCTIONS);
+
+/**
+ * Evaluate an arithmetic expression
+ * Throws an Error describing the problem for invalid expressions or results
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[A-Za-z_]+|[-+*/%^(),]|\S/gi) || [];
+  let position = 0;
+
+  const peek = (): string | undefined => tokens[position];
+  const next = (): string | undefined => tokens[position++];
+  const expect = (token: string): void => {
+    if (next() !== token) {
+      throw new Error(`Expected "${token}" in expression`);
+    }
+  };
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  // term := unary (('*' | '/' | '%') unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parseUnary();
+      if (operator !== '*' && right === 0) {
+        throw new Error('Division by zero');
+      }
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // unary := ('-' | '+') unary | power
+  const parseUnary = (): number => {
+    if (peek() === '-' || peek() === '+') {
+      return next() === '-' ? -parseUnary() : parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := primary ('^' unary)?  (right-associative)
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^') {
+      next();
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  // primary := number | function '(' arguments ')' | '(' expression ')'
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) {
+      throw new Error('Unexpected end of expression');
+    }
+
+    if (/^(\d|\.\d)/.test(token)) {
+      return parseFloat(token);
+    }
+
+    if (token === '(') {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+
+    if (/^[A-Za-z_]+$/.test(token)) {
+      const fn = FUNCTIONS[token.toLowerCase()];
+      if (!fn) {
+        throw new Error(`Unknown function "${token}". Available: ${ARITHMETIC_FUNCTIONS.join(', ')}`);
+      }
+      expect('(');
+      const args: number[] = [];
+      if (peek() !== ')') {
+        args.push(parseExpression());
+        while (peek() === ',') {
+          next();
+          args.push(parseExpression());
+        }
+      }
+      expect(')');
+      return fn(...args);
+    }
+
+    throw new Error(`Unexpected "${token}" in expression`);
+  };
+
+  if (tokens.length === 0) {
+    throw new Error('Empty expression');
+  }
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}" in expression`);
+  }
+  if (!Number.isFinite(result)) {
+    throw new Error('Result is not a finite number');
+  }
+
+  return result;
+}
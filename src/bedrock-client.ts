@@ -1,16 +1,39 @@
 /**
- * AWS Bedrock Claude API wrapper with retry logic
+ * AWS Bedrock API wrapper with retry logic
+ * Uses the Converse API so Claude, Nova and other Bedrock model families share one message format
  * Implements the AIClient interface for seamless migration from Anthropic Direct API
  */
 
 import {
   BedrockRuntimeClient,
-  InvokeModelCommand,
+  ConverseCommand,
+  ConverseCommandInput,
+  ConverseStreamCommand,
 } from '@aws-sdk/client-bedrock-runtime';
 import Anthropic from '@anthropic-ai/sdk';
-import { ComplexityLevel, ModelConfig, UsageStats, Logger, AnthropicTool } from './types';
-import { MODEL_CONFIG } from './config';
+import {
+  ModelTierName,
+  ModelToolChoice,
+  ModelConfig,
+  UsageStats,
+  Logger,
+  AnthropicTool,
+  ModelStreamEvent,
+  ModelServedBy,
+} from './types';
+import { INTERLEAVED_THINKING_BETA } from './config';
+import { modelTiers } from './model-tiers';
 import { AIClient } from './ai-client.interface';
+import {
+  ConverseStreamAccumulator,
+  fromConverseResponse,
+  getPromptCacheSupport,
+  toConverseMessages,
+  toConverseSystem,
+  toConverseToolConfig,
+  withConversationCachePoint,
+} from './bedrock-converse';
+import { RequestCancelledError, sleepUnlessCancelled } from './request-cancellation';
 
 /**
  * Bedrock Client Wrapper
@@ -22,13 +45,21 @@ export class BedrockClient implements AIClient {
   private logger: Logger;
   private systemMessage: string;
   private maxRetries: number = 3;
+  private modelOverride?: Partial<ModelConfig>;
+  private interleavedThinking: boolean;
 
+  /**
+   * @param modelOverride - Replaces settings of every model tier (used for fallback targets)
+   * @param interleavedThinking - Enable thinking between tool calls for Claude levels with thinking enabled
+   */
   constructor(
     region: string,
     systemMessage: string,
     logger: Logger,
     accessKeyId?: string,
-    secretAccessKey?: string
+    secretAccessKey?: string,
+    modelOverride?: Partial<ModelConfig>,
+    interleavedThinking: boolean = false
   ) {
     const credentials = accessKeyId && secretAccessKey
       ? { accessKeyId, secretAccessKey }
@@ -40,13 +71,15 @@ export class BedrockClient implements AIClient {
     });
     this.systemMessage = systemMessage;
     this.logger = logger;
+    this.modelOverride = modelOverride;
+    this.interleavedThinking = interleavedThinking;
   }
 
   /**
-   * Get model configuration based on complexity level
+   * Get the model configuration of a tier (maxTokens raises the limit for a single call)
    */
-  private getModelConfig(complexity: ComplexityLevel = 'ANALYTICAL'): ModelConfig {
-    return MODEL_CONFIG[complexity];
+  private getModelConfig(tier: ModelTierName = 'ANALYTICAL', maxTokens?: number): ModelConfig {
+    return { ...modelTiers.getModelConfig(tier), ...this.modelOverride, ...(maxTokens && { max_tokens: maxTokens }) };
   }
 
   /**
@@ -75,90 +108,68 @@ export class BedrockClient implements AIClient {
   }
 
   /**
-   * Sleep for exponential backoff
+   * Build the Converse request shared by sendMessage and streamMessage
+   * Models that support prompt caching get cache points after the tools, the system prompt
+   * and the conversation so far; extended thinking (and the interleaved thinking beta) is passed
+   * as a model-specific field and only for Anthropic models, which also get thinking blocks from history
    */
-  private async sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
-  /**
-   * Convert Bedrock response to Anthropic.Message format
-   */
-  private convertToAnthropicMessage(bedrockResponse: any, modelName: string, isNovaModel: boolean): Anthropic.Message {
-    if (isNovaModel) {
-      // Nova response format: { output: { message: { role, content } }, stopReason, usage }
-      const outputMessage = bedrockResponse.output?.message || bedrockResponse;
-
-      // Nova content blocks have structure: [{ text: "..." }] without type field
-      // Convert to Anthropic format: [{ type: "text", text: "..." }]
-      const normalizedContent = (outputMessage.content || []).map((block: any) => {
-        if (block.text !== undefined) {
-          return {
-            type: 'text',
-            text: block.text,
-          };
-        } else if (block.toolUse) {
-          // Nova tool use format
-          return {
-            type: 'tool_use',
-            id: block.toolUse.toolUseId,
-            name: block.toolUse.name,
-            input: block.toolUse.input,
-          };
-        }
-        // Pass through any other block types as-is
-        return block;
-      });
+  private buildConverseInput(
+    messages: Anthropic.MessageParam[],
+    tools: AnthropicTool[],
+    modelConfig: ModelConfig,
+    bedrockModelId: string
+  ): ConverseCommandInput {
+    const isAnthropicModel = bedrockModelId.includes('anthropic.');
+    const cacheSupport = getPromptCacheSupport(bedrockModelId);
+    const converseMessages = toConverseMessages(messages, isAnthropicModel);
+
+    const input: ConverseCommandInput = {
+      modelId: bedrockModelId,
+      messages: cacheSupport ? withConversationCachePoint(converseMessages) : converseMessages,
+      system: toConverseSystem(this.systemMessage, !!cacheSupport),
+      inferenceConfig: {
+        maxTokens: modelConfig.max_tokens,
+        temperature: modelConfig.temperature,
+        topP: modelConfig.top_p,
+        stopSequences: modelConfig.stop_sequences,
+      },
+      toolConfig: toConverseToolConfig(tools, !!cacheSupport?.tools),
+    };
 
-      return {
-        id: `msg_${Date.now()}`,
-        type: 'message',
-        role: 'assistant',
-        content: normalizedContent,
-        model: modelName,
-        stop_reason: bedrockResponse.stopReason || 'end_turn',
-        stop_sequence: null,
-        usage: {
-          input_tokens: bedrockResponse.usage?.inputTokens || 0,
-          output_tokens: bedrockResponse.usage?.outputTokens || 0,
-        },
-      };
-    } else {
-      // Claude response format
-      return {
-        id: bedrockResponse.id || `msg_${Date.now()}`,
-        type: 'message',
-        role: 'assistant',
-        content: bedrockResponse.content,
-        model: modelName,
-        stop_reason: bedrockResponse.stop_reason,
-        stop_sequence: bedrockResponse.stop_sequence || null,
-        usage: {
-          input_tokens: bedrockResponse.usage.input_tokens,
-          output_tokens: bedrockResponse.usage.output_tokens,
-        },
+    const thinking = modelConfig.thinking;
+    if (thinking?.type === 'enabled' && thinking.budget_tokens && isAnthropicModel) {
+      input.additionalModelRequestFields = {
+        thinking: { type: 'enabled', budget_tokens: thinking.budget_tokens },
+        ...(this.interleavedThinking && { anthropic_beta: [INTERLEAVED_THINKING_BETA] }),
       };
     }
+
+    return input;
   }
 
   /**
    * Send a message to Claude via Bedrock with retry logic and exponential backoff
    * Returns an Anthropic.Message for compatibility
+   * The Converse API has no 'none' tool choice, and tool calls in history require the tool definitions,
+   * so toolChoice 'none' only travels with retries; callers must handle tool calls in the answer
    */
   async sendMessage(
     messages: Anthropic.MessageParam[],
     tools: AnthropicTool[],
-    complexity: ComplexityLevel = 'ANALYTICAL',
+    tier: ModelTierName = 'ANALYTICAL',
+    signal?: AbortSignal,
+    maxTokens?: number,
+    toolChoice: ModelToolChoice = 'auto',
     retryCount: number = 0
   ): Promise<Anthropic.Message> {
-    const modelConfig = this.getModelConfig(complexity);
+    const modelConfig = this.getModelConfig(tier, maxTokens);
     const bedrockModelId = this.getBedrockModelId(modelConfig.model);
 
     try {
       this.logger.info('Sending message to Claude via Bedrock', {
         model: modelConfig.model,
         bedrockModelId,
-        complexity,
+        tier,
         messageCount: messages.length,
         toolCount: tools.length,
         retryCount,
@@ -176,139 +187,18 @@ export class BedrockClient implements AIClient {
         toolNames: tools.map(t => t.name),
       });
 
-      // Detect model family (Nova vs Claude)
-      const isNovaModel = bedrockModelId.includes('amazon.nova');
-
-      // Build the request body for Bedrock
-      let requestBody: any;
-
-      if (isNovaModel) {
-        // Amazon Nova request format
-        requestBody = {
-          messages: messages.map(msg => ({
-            role: msg.role,
-            content: typeof msg.content === 'string'
-              ? [{ text: msg.content }]
-              : msg.content,
-          })),
-          system: [{ text: this.systemMessage }],
-          inferenceConfig: {
-            maxTokens: modelConfig.max_tokens,
-            temperature: 0.7,
-            topP: 0.9,
-          },
-        };
-
-        // Add tools if provided (Nova only supports "auto" mode)
-        if (tools.length > 0) {
-          requestBody.toolConfig = {
-            tools: tools.map(tool => ({
-              toolSpec: {
-                name: tool.name,
-                description: tool.description,
-                inputSchema: {
-                  json: tool.input_schema,
-                },
-              },
-            })),
-            toolChoice: { auto: {} },
-          };
-        }
-
-        // Note: Nova doesn't support thinking/extended reasoning in the same way as Claude
-      } else {
-        // Claude (Anthropic) request format
-        requestBody = {
-          anthropic_version: 'bedrock-2023-05-31',
-          max_tokens: modelConfig.max_tokens,
-          system: this.systemMessage,
-          messages: messages.map(msg => ({
-            role: msg.role,
-            content: msg.content,
-          })),
-        };
-
-        // Add tools if provided
-        if (tools.length > 0) {
-          requestBody.tools = tools.map(tool => ({
-            name: tool.name,
-            description: tool.description,
-            input_schema: tool.input_schema,
-          }));
-        }
-
-        // Add thinking configuration for analytical queries
-        if (modelConfig.thinking && modelConfig.thinking.type === 'enabled') {
-          requestBody.thinking = {
-            type: 'enabled',
-            budget_tokens: modelConfig.thinking.budget_tokens,
-          };
-        }
-      }
-
-      // Create the Bedrock command
-      const command = new InvokeModelCommand({
-        modelId: bedrockModelId,
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify(requestBody),
-      });
-
-      // Make the API call
-      const response = await this.client.send(command);
-
-      // Parse the response
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-
-      // Log raw response for debugging
-      this.logger.info('Raw Bedrock response structure', {
-        hasOutput: !!responseBody.output,
-        hasContent: !!responseBody.content,
-        hasMessage: !!(responseBody.output?.message),
-        stopReason: responseBody.stopReason || responseBody.stop_reason,
-        keys: Object.keys(responseBody),
-        messageContent: responseBody.output?.message?.content || responseBody.content,
-        fullResponse: JSON.stringify(responseBody).substring(0, 500),
-      });
+      const command = new ConverseCommand(this.buildConverseInput(messages, tools, modelConfig, bedrockModelId));
+      const response = await this.client.send(command, { abortSignal: signal });
+      const message = fromConverseResponse(response, modelConfig.model);
 
-      // Convert Bedrock response to Anthropic format
-      const message = this.convertToAnthropicMessage(responseBody, modelConfig.model, isNovaModel);
-
-      this.logger.info('Bedrock API response received', {
-        model: modelConfig.model,
-        bedrockModelId,
-        stopReason: message.stop_reason,
-        usage: message.usage,
-      });
-
-      // Log response content details (at debug level)
-      this.logger.debug('Bedrock API response details', {
-        stopReason: message.stop_reason,
-        contentBlocks: message.content.map((block: any) => {
-          if (block.type === 'text') {
-            return {
-              type: 'text',
-              text: block.text.substring(0, 500) + (block.text.length > 500 ? '...' : '')
-            };
-          } else if (block.type === 'thinking') {
-            return {
-              type: 'thinking',
-              thinking: block.thinking?.substring(0, 200) + '...'
-            };
-          } else if (block.type === 'tool_use') {
-            return {
-              type: 'tool_use',
-              name: block.name,
-              id: block.id,
-              input: JSON.stringify(block.input).substring(0, 200) + '...'
-            };
-          }
-          return { type: block.type };
-        })
-      });
+      this.logResponse(message, modelConfig, bedrockModelId);
 
       return message;
     } catch (error) {
+      if (signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.logger.error('Bedrock API error', {
         error: errorMessage,
@@ -326,8 +216,8 @@ export class BedrockClient implements AIClient {
             maxRetries: this.maxRetries,
           });
 
-          await this.sleep(backoffMs);
-          return this.sendMessage(messages, tools, complexity, retryCount + 1);
+          await sleepUnlessCancelled(backoffMs, signal);
+          return this.sendMessage(messages, tools, tier, signal, maxTokens, toolChoice, retryCount + 1);
         }
       }
 
@@ -336,6 +226,129 @@ export class BedrockClient implements AIClient {
     }
   }
 
+  /**
+   * Stream a message via ConverseStream, forwarding text and thinking deltas
+   * Retries only if the stream fails before any delta was forwarded
+   */
+  async streamMessage(
+    messages: Anthropic.MessageParam[],
+    tools: AnthropicTool[],
+    tier: ModelTierName = 'ANALYTICAL',
+    onEvent: (event: ModelStreamEvent) => void,
+    signal?: AbortSignal,
+    maxTokens?: number,
+    toolChoice: ModelToolChoice = 'auto',
+    retryCount: number = 0
+  ): Promise<Anthropic.Message> {
+    const modelConfig = this.getModelConfig(tier, maxTokens);
+    const bedrockModelId = this.getBedrockModelId(modelConfig.model);
+    let deltasForwarded = false;
+
+    try {
+      this.logger.info('Streaming message from Claude via Bedrock', {
+        model: modelConfig.model,
+        bedrockModelId,
+        tier,
+        messageCount: messages.length,
+        toolCount: tools.length,
+        retryCount,
+      });
+
+      const command = new ConverseStreamCommand(this.buildConverseInput(messages, tools, modelConfig, bedrockModelId));
+      const response = await this.client.send(command, { abortSignal: signal });
+      if (!response.stream) {
+        throw new Error('Bedrock returned an empty response stream');
+      }
+
+      const accumulator = new ConverseStreamAccumulator();
+
+      for await (const event of response.stream) {
+        const delta = accumulator.handleEvent(event);
+        if (delta) {
+          deltasForwarded = true;
+          onEvent(delta);
+        }
+      }
+
+      const message = accumulator.finalMessage(modelConfig.model);
+
+      this.logResponse(message, modelConfig, bedrockModelId);
+
+      return message;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('Bedrock streaming API error', {
+        error: errorMessage,
+        retryCount,
+        model: modelConfig.model,
+        deltasForwarded,
+      });
+
+      // Partial output has already reached the listener, so a retry would duplicate it
+      if (!deltasForwarded && retryCount < this.maxRetries && this.shouldRetry(error)) {
+        const backoffMs = Math.pow(2, retryCount) * 1000; // 1s, 2s, 4s
+        this.logger.warn(`Retrying Bedrock streaming API call after ${backoffMs}ms`, {
+          retryCount: retryCount + 1,
+          maxRetries: this.maxRetries,
+        });
+
+        await sleepUnlessCancelled(backoffMs, signal);
+        return this.streamMessage(messages, tools, tier, onEvent, signal, maxTokens, toolChoice, retryCount + 1);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Log response summary and content details
+   */
+  private logResponse(message: Anthropic.Message, modelConfig: ModelConfig, bedrockModelId: string): void {
+    const usage = message.usage as any;
+    const cacheReadTokens = usage.cache_read_input_tokens || 0;
+    const cacheHitRate = cacheReadTokens > 0
+      ? (cacheReadTokens / (usage.input_tokens + cacheReadTokens)) * 100
+      : 0;
+
+    this.logger.info('Bedrock API response received', {
+      model: modelConfig.model,
+      bedrockModelId,
+      stopReason: message.stop_reason,
+      usage: message.usage,
+      cacheHitRate: `${cacheHitRate.toFixed(2)}%`,
+    });
+
+    // Log response content details (at debug level)
+    this.logger.debug('Bedrock API response details', {
+      stopReason: message.stop_reason,
+      contentBlocks: message.content.map((block: any) => {
+        if (block.type === 'text') {
+          return {
+            type: 'text',
+            text: block.text.substring(0, 500) + (block.text.length > 500 ? '...' : '')
+          };
+        } else if (block.type === 'thinking') {
+          return {
+            type: 'thinking',
+            thinking: block.thinking?.substring(0, 200) + '...'
+          };
+        } else if (block.type === 'tool_use') {
+          return {
+            type: 'tool_use',
+            name: block.name,
+            id: block.id,
+            input: JSON.stringify(block.input).substring(0, 200) + '...'
+          };
+        }
+        return { type: block.type };
+      })
+    });
+  }
+
   /**
    * Determine if an error is retryable
    */
@@ -358,15 +371,16 @@ export class BedrockClient implements AIClient {
 
   /**
    * Extract usage statistics from response
-   * Note: Bedrock does not currently support prompt caching for Claude models,
-   * so cache-related tokens will be 0
+   * Bedrock cache points always use the 5 minute TTL and report no duration breakdown
    */
   extractUsageStats(response: Anthropic.Message): UsageStats {
+    const usage = response.usage as any;
+
     return {
-      input_tokens: response.usage.input_tokens,
-      output_tokens: response.usage.output_tokens,
-      cache_creation_tokens: 0,
-      cache_read_tokens: 0,
+      input_tokens: usage.input_tokens,
+      output_tokens: usage.output_tokens,
+      cache_creation_tokens: usage.cache_creation_input_tokens || 0,
+      cache_read_tokens: usage.cache_read_input_tokens || 0,
     };
   }
 
@@ -411,4 +425,11 @@ export class BedrockClient implements AIClient {
   hasToolUse(response: Anthropic.Message): boolean {
     return response.stop_reason === 'tool_use' || this.extractToolUses(response).length > 0;
   }
+
+  /**
+   * Provider and model that produced the response
+   */
+  extractServedBy(response: Anthropic.Message): ModelServedBy {
+    return { provider: 'bedrock', model: response.model, failedOver: false };
+  }
 }
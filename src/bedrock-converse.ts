@@ -0,0 +1,377 @@
+/**
+ * Translation between the Anthropic message model and the Bedrock Converse API
+ * Covers text, images, tool_use, tool_result (including is_error) and thinking blocks,
+ * so multi-turn tool use works the same for Claude, Nova and other Bedrock model families
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  CachePointBlock,
+  ContentBlock,
+  ConverseCommandOutput,
+  ConverseStreamOutput,
+  ImageBlock,
+  ImageFormat,
+  Message,
+  StopReason,
+  SystemContentBlock,
+  TokenUsage,
+  ToolConfiguration,
+  ToolResultContentBlock,
+} from '@aws-sdk/client-bedrock-runtime';
+import { AnthropicTool, ModelStreamEvent } from './types';
+import { parseToolInputJson } from './message-stream';
+
+/**
+ * Converse stop reasons without an Anthropic equivalent end the turn
+ */
+const STOP_REASONS: Partial<Record<StopReason, Anthropic.Message['stop_reason']>> = {
+  end_turn: 'end_turn',
+  tool_use: 'tool_use',
+  max_tokens: 'max_tokens',
+  stop_sequence: 'stop_sequence',
+  model_context_window_exceeded: 'max_tokens',
+};
+
+/**
+ * Bedrock model families that accept cache points (matched against the model ID)
+ * Nova caches the system prompt and messages but not tool definitions
+ */
+const PROMPT_CACHE_MODELS: Array<{ pattern: string; tools: boolean }> = [
+  { pattern: 'anthropic.claude-3-5-haiku', tools: true },
+  { pattern: 'anthropic.claude-3-7-sonnet', tools: true },
+  { pattern: 'anthropic.claude-sonnet-4', tools: true },
+  { pattern: 'anthropic.claude-opus-4', tools: true },
+  { pattern: 'anthropic.claude-haiku-4-5', tools: true },
+  { pattern: 'amazon.nova-micro', tools: false },
+  { pattern: 'amazon.nova-lite', tools: false },
+  { pattern: 'amazon.nova-pro', tools: false },
+  { pattern: 'amazon.nova-premier', tools: false },
+];
+
+const CACHE_POINT: CachePointBlock = { type: 'default' };
+
+const REASONING_BLOCK_TYPES = ['thinking', 'redacted_thinking'];
+
+/**
+ * Where cache points may be placed for a model
+ */
+export interface PromptCacheSupport {
+  tools: boolean;
+}
+
+/**
+ * Get prompt caching support for a Bedrock model ID (undefined if the model cannot cache)
+ */
+export function getPromptCacheSupport(bedrockModelId: string): PromptCacheSupport | undefined {
+  const entry = PROMPT_CACHE_MODELS.find(model => bedrockModelId.includes(model.pattern));
+  return entry ? { tools: entry.tools } : undefined;
+}
+
+/**
+ * Convert Anthropic messages to Converse messages
+ * Thinking blocks are signed by Claude, so other model families get the history without them.
+ * Converse rejects empty text blocks and empty messages, so empty text is skipped, messages left without
+ * content are dropped, and the neighbours of a dropped message are merged if they now share a role
+ */
+export function toConverseMessages(messages: Anthropic.MessageParam[], includeReasoning: boolean = true): Message[] {
+  const converted: Message[] = [];
+
+  for (const message of messages) {
+    const content = typeof message.content === 'string'
+      ? (message.content ? [{ text: message.content }] : [])
+      : message.content
+        .filter(block => includeReasoning || !REASONING_BLOCK_TYPES.includes((block as any).type))
+        .map(toConverseContentBlock)
+        .filter((block): block is ContentBlock => block !== undefined);
+    if (content.length === 0) {
+      continue;
+    }
+
+    const previous = converted[converted.length - 1];
+    if (previous?.role === message.role) {
+      previous.content = [...(previous.content || []), ...content];
+    } else {
+      converted.push({ role: message.role, content });
+    }
+  }
+
+  return converted;
+}
+
+/**
+ * Convert one Anthropic content block (empty text blocks are dropped; Converse rejects them)
+ */
+function toConverseContentBlock(block: Exclude<Anthropic.MessageParam['content'], string>[number]): ContentBlock | undefined {
+  const anyBlock = block as any;
+
+  switch (anyBlock.type) {
+    case 'text':
+      return anyBlock.text ? { text: anyBlock.text } : undefined;
+
+    case 'image':
+      return { image: toConverseImage(anyBlock) };
+
+    case 'tool_use':
+      return { toolUse: { toolUseId: anyBlock.id, name: anyBlock.name, input: anyBlock.input ?? {} } };
+
+    case 'tool_result':
+      return {
+        toolResult: {
+          toolUseId: anyBlock.tool_use_id,
+          content: toConverseToolResultContent(anyBlock.content),
+          status: anyBlock.is_error ? 'error' : 'success',
+        },
+      };
+
+    case 'thinking':
+      return {
+        reasoningContent: {
+          reasoningText: { text: anyBlock.thinking, signature: anyBlock.signature },
+        },
+      };
+
+    case 'redacted_thinking':
+      return { reasoningContent: { redactedContent: Buffer.from(anyBlock.data, 'base64') } };
+
+    default:
+      throw new Error(`Content block type "${anyBlock.type}" is not supported by the Bedrock Converse API`);
+  }
+}
+
+/**
+ * Convert the content of a tool_result block
+ */
+function toConverseToolResultContent(content: Anthropic.ToolResultBlockParam['content']): ToolResultContentBlock[] {
+  if (content === undefined || content === '' || (Array.isArray(content) && content.length === 0)) {
+    return [{ text: '(no output)' }];
+  }
+
+  if (typeof content === 'string') {
+    return [{ text: content }];
+  }
+
+  const blocks = content
+    .filter(block => block.type === 'image' || block.text)
+    .map(block => (block.type === 'image' ? { image: toConverseImage(block) } : { text: block.text }));
+  return blocks.length > 0 ? blocks : [{ text: '(no output)' }];
+}
+
+/**
+ * Convert a base64 image block (URL sources cannot be sent to Bedrock)
+ */
+function toConverseImage(block: Anthropic.ImageBlockParam): ImageBlock {
+  const source = block.source as any;
+  if (source.type !== 'base64') {
+    throw new Error('Only base64 image sources are supported by the Bedrock Converse API');
+  }
+
+  return {
+    format: source.media_type.replace('image/', '') as ImageFormat,
+    source: { bytes: Buffer.from(source.data, 'base64') },
+  };
+}
+
+/**
+ * Add a cache point after the last message so the conversation prefix is cached
+ * The next iteration re-sends this prefix plus new turns and reads it from the cache
+ */
+export function withConversationCachePoint(messages: Message[]): Message[] {
+  if (messages.length === 0) {
+    return messages;
+  }
+
+  const last = messages[messages.length - 1];
+  return [
+    ...messages.slice(0, -1),
+    { ...last, content: [...(last.content || []), { cachePoint: CACHE_POINT }] },
+  ];
+}
+
+/**
+ * Build the system prompt blocks, followed by a cache point when caching
+ */
+export function toConverseSystem(systemMessage: string, cache: boolean = false): SystemContentBlock[] {
+  return cache ? [{ text: systemMessage }, { cachePoint: CACHE_POINT }] : [{ text: systemMessage }];
+}
+
+/**
+ * Build the tool configuration (undefined when there are no tools), followed by a cache point when caching
+ */
+export function toConverseToolConfig(tools: AnthropicTool[], cache: boolean = false): ToolConfiguration | undefined {
+  if (tools.length === 0) {
+    return undefined;
+  }
+
+  return {
+    tools: [
+      ...tools.map(tool => ({
+        toolSpec: {
+          name: tool.name,
+          description: tool.description,
+          inputSchema: { json: tool.input_schema as any },
+        },
+      })),
+      ...(cache ? [{ cachePoint: CACHE_POINT }] : []),
+    ],
+  };
+}
+
+/**
+ * Convert Converse output content blocks to Anthropic content blocks
+ */
+function fromConverseContent(content: ContentBlock[]): Anthropic.ContentBlock[] {
+  const blocks: any[] = [];
+
+  for (const block of content) {
+    if (block.text !== undefined) {
+      blocks.push({ type: 'text', text: block.text });
+    } else if (block.toolUse) {
+      blocks.push({ type: 'tool_use', id: block.toolUse.toolUseId, name: block.toolUse.name, input: block.toolUse.input ?? {} });
+    } else if (block.reasoningContent?.reasoningText) {
+      blocks.push({
+        type: 'thinking',
+        thinking: block.reasoningContent.reasoningText.text,
+        signature: block.reasoningContent.reasoningText.signature,
+      });
+    } else if (block.reasoningContent?.redactedContent) {
+      blocks.push({ type: 'redacted_thinking', data: Buffer.from(block.reasoningContent.redactedContent).toString('base64') });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Convert a Converse response to an Anthropic message
+ */
+export function fromConverseResponse(response: ConverseCommandOutput, model: string): Anthropic.Message {
+  return {
+    id: `msg_${response.$metadata.requestId || Date.now()}`,
+    type: 'message',
+    role: 'assistant',
+    content: fromConverseContent(response.output?.message?.content || []),
+    model,
+    stop_reason: toAnthropicStopReason(response.stopReason),
+    stop_sequence: null,
+    usage: toAnthropicUsage(response.usage),
+  } as Anthropic.Message;
+}
+
+/**
+ * Map Converse token usage, including cache reads and writes
+ */
+function toAnthropicUsage(usage?: TokenUsage): Anthropic.Usage {
+  return {
+    input_tokens: usage?.inputTokens || 0,
+    output_tokens: usage?.outputTokens || 0,
+    cache_creation_input_tokens: usage?.cacheWriteInputTokens || 0,
+    cache_read_input_tokens: usage?.cacheReadInputTokens || 0,
+  } as Anthropic.Usage;
+}
+
+/**
+ * Map a Converse stop reason
+ */
+function toAnthropicStopReason(stopReason?: StopReason): Anthropic.Message['stop_reason'] {
+  return (stopReason && STOP_REASONS[stopReason]) || 'end_turn';
+}
+
+/**
+ * Converse Stream Accumulator
+ * Feed it ConverseStream events in order, then read the final message
+ */
+export class ConverseStreamAccumulator {
+  private content: ContentBlock[] = [];
+  private partialJson: Map<number, string> = new Map();
+  private stopReason?: StopReason;
+  private usage?: TokenUsage;
+
+  /**
+   * Apply a single stream event and return the delta to forward to listeners, if any
+   * Stream exceptions (throttling, validation, ...) are thrown
+   */
+  handleEvent(event: ConverseStreamOutput): ModelStreamEvent | undefined {
+    if (event.contentBlockStart) {
+      const index = event.contentBlockStart.contentBlockIndex ?? this.content.length;
+      const toolUse = event.contentBlockStart.start?.toolUse;
+      if (toolUse) {
+        this.content[index] = { toolUse: { toolUseId: toolUse.toolUseId, name: toolUse.name, input: {} } };
+        this.partialJson.set(index, '');
+      }
+    } else if (event.contentBlockDelta) {
+      const index = event.contentBlockDelta.contentBlockIndex ?? this.content.length;
+      const delta = event.contentBlockDelta.delta;
+
+      if (delta?.text !== undefined) {
+        this.content[index] = { text: (this.content[index]?.text || '') + delta.text };
+        return { type: 'text_delta', text: delta.text };
+      } else if (delta?.toolUse) {
+        this.partialJson.set(index, (this.partialJson.get(index) || '') + (delta.toolUse.input || ''));
+      } else if (delta?.reasoningContent) {
+        return this.applyReasoningDelta(index, delta.reasoningContent);
+      }
+    } else if (event.contentBlockStop) {
+      const index = event.contentBlockStop.contentBlockIndex ?? this.content.length - 1;
+      const json = this.partialJson.get(index);
+      const block = this.content[index];
+      if (block?.toolUse && json !== undefined) {
+        block.toolUse.input = parseToolInputJson(json) as any;
+        this.partialJson.delete(index);
+      }
+    } else if (event.messageStop) {
+      this.stopReason = event.messageStop.stopReason;
+    } else if (event.metadata?.usage) {
+      this.usage = event.metadata.usage;
+    } else {
+      const error = event.internalServerException
+        || event.modelStreamErrorException
+        || event.serviceUnavailableException
+        || event.throttlingException
+        || event.validationException;
+      if (error) {
+        throw error;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Apply a reasoning (thinking) delta: text, signature or redacted content
+   */
+  private applyReasoningDelta(index: number, delta: any): ModelStreamEvent | undefined {
+    if (delta.redactedContent) {
+      this.content[index] = { reasoningContent: { redactedContent: delta.redactedContent } };
+      return undefined;
+    }
+
+    const current = this.content[index]?.reasoningContent?.reasoningText || { text: '' };
+    this.content[index] = {
+      reasoningContent: {
+        reasoningText: {
+          text: current.text + (delta.text || ''),
+          signature: (current.signature || '') + (delta.signature || '') || undefined,
+        },
+      },
+    };
+
+    return delta.text ? { type: 'thinking_delta', thinking: delta.text } : undefined;
+  }
+
+  /**
+   * Get the accumulated message
+   */
+  finalMessage(model: string): Anthropic.Message {
+    return {
+      id: `msg_${Date.now()}`,
+      type: 'message',
+      role: 'assistant',
+      content: fromConverseContent(this.content.filter(block => block !== undefined)),
+      model,
+      stop_reason: toAnthropicStopReason(this.stopReason),
+      stop_sequence: null,
+      usage: toAnthropicUsage(this.usage),
+    } as Anthropic.Message;
+  }
+}
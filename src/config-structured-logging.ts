@@ -12,7 +12,8 @@
 import { config as dotenvConfig } from 'dotenv';
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
-import { AppConfig, MCPServerConfig } from './types';
+import { AppConfig } from './types';
+import { loadMCPServerConfigs } from './mcp-server-registry';
 import { StructuredLogger } from './shared/structured-logger';
 import { loadSecrets, isRunningInAWS, getECSTaskId } from './shared/secrets-loader';
 
@@ -78,31 +79,6 @@ function validateConfig(secrets: Record<string, string>): void {
   }
 }
 
-/**
- * Parse MCP server configurations from environment variables
- */
-function parseMCPServers(): MCPServerConfig[] {
-  const servers: MCPServerConfig[] = [];
-
-  // DRM MCP Server
-  if (process.env.DRM_MCP_URL) {
-    servers.push({
-      name: 'drm',
-      url: process.env.DRM_MCP_URL,
-    });
-  }
-
-  // Outage Monitor MCP Server
-  if (process.env.OUTAGE_MCP_URL) {
-    servers.push({
-      name: 'outage',
-      url: process.env.OUTAGE_MCP_URL,
-    });
-  }
-
-  return servers;
-}
-
 /**
  * Create and configure the application configuration with Secrets Manager support
  */
@@ -133,7 +109,7 @@ export async function createConfigAsync(): Promise<AppConfig> {
     awsAccessKeyId: process.env.AWS_ACCESS_KEY_ID,
     awsSecretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
     // Common configuration
-    mcpServers: parseMCPServers(),
+    mcpServers: loadMCPServerConfigs(),
     systemMessage: loadSystemMessage(),
     conversationTimeoutMinutes: parseInt(process.env.CONVERSATION_TIMEOUT_MINUTES || '60', 10),
     maxConversationMessages: process.env.MAX_CONVERSATION_MESSAGES
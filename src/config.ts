@@ -12,7 +12,10 @@
 import { config as dotenvConfig } from 'dotenv';
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
-import { AppConfig, MCPServerConfig } from './types';
+import { AppConfig, ComplexityLevel, ConversationStoreConfig, ModelProvider, ModelTarget, ModelTier, RequestBudget } from './types';
+import { loadMCPServerConfigs } from './mcp-server-registry';
+import { loadModelTiers } from './model-tiers';
+import { validateRequestBudget } from './request-budget';
 import { StructuredLogger } from './shared/structured-logger';
 import { loadSecrets, isRunningInAWS, getECSTaskId } from './shared/secrets-loader';
 
@@ -79,28 +82,149 @@ function validateConfig(secrets: Record<string, string>): void {
 }
 
 /**
- * Parse MCP server configurations from environment variables
+ * Parse conversation store configuration from environment variables
  */
-function parseMCPServers(): MCPServerConfig[] {
-  const servers: MCPServerConfig[] = [];
-
-  // DRM MCP Server
-  if (process.env.DRM_MCP_URL) {
-    servers.push({
-      name: 'drm',
-      url: process.env.DRM_MCP_URL,
-    });
+function parseConversationStore(secrets: Record<string, string>): ConversationStoreConfig {
+  const type = (process.env.CONVERSATION_STORE || 'memory') as ConversationStoreConfig['type'];
+  if (type !== 'memory' && type !== 'sqlite' && type !== 'redis') {
+    throw new Error('CONVERSATION_STORE must be one of "memory", "sqlite" or "redis"');
+  }
+
+  return {
+    type,
+    sqlitePath: process.env.CONVERSATION_STORE_PATH,
+    redisUrl: getEnvVar('REDIS_URL', secrets),
+  };
+}
+
+/**
+ * Parse per-tool result budgets ("list_devices=50000,get_*_logs=10000")
+ */
+function parseToolResultBudgets(): Record<string, number> {
+  const budgets: Record<string, number> = {};
+
+  for (const entry of (process.env.TOOL_RESULT_BUDGETS || '').split(',').map(e => e.trim()).filter(Boolean)) {
+    const [pattern, value] = entry.split('=').map(part => part.trim());
+    const maxChars = parseInt(value, 10);
+    if (!pattern || Number.isNaN(maxChars) || maxChars < 0) {
+      throw new Error(`Invalid TOOL_RESULT_BUDGETS entry "${entry}". Expected <tool pattern>=<max characters>`);
+    }
+    budgets[pattern] = maxChars;
+  }
+
+  return budgets;
+}
+
+/**
+ * Parse default request budgets per complexity level
+ * ('{"SIMPLE":{"maxCostUsd":0.05},"ANALYTICAL":{"maxTotalTokens":400000,"maxCostUsd":1}}')
+ */
+function parseRequestBudgets(): Partial<Record<ComplexityLevel, RequestBudget>> | undefined {
+  if (!process.env.REQUEST_BUDGETS) {
+    return undefined;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(process.env.REQUEST_BUDGETS);
+  } catch (error) {
+    throw new Error(`REQUEST_BUDGETS is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('REQUEST_BUDGETS must be an object keyed by complexity level');
   }
 
-  // Outage Monitor MCP Server
-  if (process.env.OUTAGE_MCP_URL) {
-    servers.push({
-      name: 'outage',
-      url: process.env.OUTAGE_MCP_URL,
+  const complexities: ComplexityLevel[] = ['SIMPLE', 'PROCEDURAL', 'ANALYTICAL'];
+  for (const [complexity, budget] of Object.entries(raw)) {
+    if (!complexities.includes(complexity as ComplexityLevel)) {
+      throw new Error(`REQUEST_BUDGETS: unknown complexity level "${complexity}" (expected ${complexities.join(', ')})`);
+    }
+    const error = validateRequestBudget(budget);
+    if (error) {
+      throw new Error(`REQUEST_BUDGETS.${complexity}: ${error}`);
+    }
+  }
+
+  return raw as Partial<Record<ComplexityLevel, RequestBudget>>;
+}
+
+/**
+ * Parse model fallback chains per complexity level
+ * ('{"ANALYTICAL":[{"provider":"anthropic","model":"claude-sonnet-4-5-20250929"},
+ *   {"provider":"bedrock","model":"amazon.nova-pro-v1:0","maxTokens":10000}]}')
+ * A target's maxTokens must leave room for the thinking budget of its level's tier
+ */
+function parseModelFallbacks(
+  secrets: Record<string, string>,
+  tiers: Record<string, ModelTier>
+): Partial<Record<ComplexityLevel, ModelTarget[]>> | undefined {
+  if (!process.env.MODEL_FALLBACKS) {
+    return undefined;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(process.env.MODEL_FALLBACKS);
+  } catch (error) {
+    throw new Error(`MODEL_FALLBACKS is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('MODEL_FALLBACKS must be an object keyed by complexity level');
+  }
+
+  const complexities: ComplexityLevel[] = ['SIMPLE', 'PROCEDURAL', 'ANALYTICAL'];
+  const isPositiveInt = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) > 0);
+  const fallbacks: Partial<Record<ComplexityLevel, ModelTarget[]>> = {};
+
+  for (const [key, targets] of Object.entries(raw)) {
+    if (!complexities.includes(key as ComplexityLevel)) {
+      throw new Error(`MODEL_FALLBACKS: unknown complexity level "${key}" (expected ${complexities.join(', ')})`);
+    }
+    const complexity = key as ComplexityLevel;
+    if (!Array.isArray(targets) || targets.length === 0) {
+      throw new Error(`MODEL_FALLBACKS.${complexity} must be a non-empty array of targets`);
+    }
+
+    const thinkingBudget = tiers[complexity]?.thinkingBudget || 0;
+    fallbacks[complexity] = targets.map((target: unknown, index: number): ModelTarget => {
+      const path = `MODEL_FALLBACKS.${complexity}[${index}]`;
+      if (typeof target !== 'object' || target === null || Array.isArray(target)) {
+        throw new Error(`${path} must be an object`);
+      }
+      const { provider, model, maxTokens, timeoutMs } = target as Record<string, unknown>;
+      if (provider !== 'anthropic' && provider !== 'bedrock') {
+        throw new Error(`${path}.provider must be "anthropic" or "bedrock"`);
+      }
+      if (typeof model !== 'string' || model.length === 0) {
+        throw new Error(`${path}.model must be a non-empty string`);
+      }
+      if (!isPositiveInt(maxTokens) || !isPositiveInt(timeoutMs)) {
+        throw new Error(`${path}: maxTokens and timeoutMs must be positive integers`);
+      }
+      if (maxTokens !== undefined && thinkingBudget > 0 && (maxTokens as number) <= thinkingBudget) {
+        throw new Error(
+          `${path}.maxTokens must be larger than the thinking budget of the ${complexity} tier (${thinkingBudget})`
+        );
+      }
+      if (provider === 'anthropic' && !getEnvVar('ANTHROPIC_API_KEY', secrets)) {
+        throw new Error(`${path} uses Anthropic but ANTHROPIC_API_KEY is not set`);
+      }
+      if (provider === 'bedrock' && !process.env.AWS_REGION) {
+        throw new Error(`${path} uses Bedrock but AWS_REGION is not set`);
+      }
+
+      return {
+        provider,
+        model,
+        ...(maxTokens !== undefined ? { maxTokens: maxTokens as number } : {}),
+        ...(timeoutMs !== undefined ? { timeoutMs: timeoutMs as number } : {}),
+      };
     });
   }
 
-  return servers;
+  return fallbacks;
 }
 
 /**
@@ -121,6 +245,14 @@ export async function createConfigAsync(): Promise<AppConfig> {
 
   const useBedrock = process.env.USE_BEDROCK === 'true';
 
+  // Model tiers may only use providers whose credentials are configured
+  const availableProviders: ModelProvider[] = [
+    ...(getEnvVar('ANTHROPIC_API_KEY', secrets) ? ['anthropic' as const] : []),
+    ...(process.env.AWS_REGION ? ['bedrock' as const] : []),
+  ];
+
+  const modelTiers = loadModelTiers(availableProviders);
+
   return {
     port: parseInt(process.env.PORT || '8080', 10),
     nodeEnv: process.env.NODE_ENV || 'development',
@@ -133,12 +265,36 @@ export async function createConfigAsync(): Promise<AppConfig> {
     awsAccessKeyId: process.env.AWS_ACCESS_KEY_ID,
     awsSecretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
     // Common configuration
-    mcpServers: parseMCPServers(),
+    mcpServers: loadMCPServerConfigs(),
     systemMessage: loadSystemMessage(),
     conversationTimeoutMinutes: parseInt(process.env.CONVERSATION_TIMEOUT_MINUTES || '60', 10),
     maxConversationMessages: process.env.MAX_CONVERSATION_MESSAGES
       ? parseInt(process.env.MAX_CONVERSATION_MESSAGES, 10)
       : 20,
+    maxConversationTokens: process.env.MAX_CONVERSATION_TOKENS
+      ? parseInt(process.env.MAX_CONVERSATION_TOKENS, 10)
+      : undefined,
+    summarizeEvictedHistory: process.env.CONVERSATION_SUMMARIZATION !== 'false',
+    conversationStore: parseConversationStore(secrets),
+    approvalRequiredTools: process.env.APPROVAL_REQUIRED_TOOLS !== undefined
+      ? process.env.APPROVAL_REQUIRED_TOOLS.split(',').map(p => p.trim()).filter(Boolean)
+      : undefined,
+    approvalForDestructiveTools: process.env.APPROVAL_DESTRUCTIVE_TOOLS !== 'false',
+    mcpHealthCheckIntervalSeconds: parseInt(process.env.MCP_HEALTH_CHECK_INTERVAL_SECONDS || '30', 10),
+    mcpReconnectMaxDelaySeconds: parseInt(process.env.MCP_RECONNECT_MAX_DELAY_SECONDS || '60', 10),
+    toolResultMaxChars: parseInt(process.env.TOOL_RESULT_MAX_CHARS || '20000', 10),
+    toolResultBudgets: parseToolResultBudgets(),
+    toolResultPreviewChars: parseInt(process.env.TOOL_RESULT_PREVIEW_CHARS || '2000', 10),
+    accuracyValidation: process.env.ACCURACY_VALIDATION !== 'false',
+    accuracyCorrection: process.env.ACCURACY_CORRECTION === 'true',
+    requestBudgets: parseRequestBudgets(),
+    modelFallbacks: parseModelFallbacks(secrets, modelTiers),
+    modelTimeoutMs: process.env.MODEL_TIMEOUT_MS ? parseInt(process.env.MODEL_TIMEOUT_MS, 10) : undefined,
+    interleavedThinking: process.env.INTERLEAVED_THINKING === 'true',
+    maxContinuations: process.env.MAX_CONTINUATIONS ? parseInt(process.env.MAX_CONTINUATIONS, 10) : undefined,
+    maxTokensCeiling: process.env.MAX_TOKENS_CEILING ? parseInt(process.env.MAX_TOKENS_CEILING, 10) : undefined,
+    modelTiers,
+    modelTiersFile: process.env.MODEL_TIERS_FILE,
     cacheTTL,
   };
 }
@@ -172,29 +328,6 @@ export function logEnvironmentInfo(logger: StructuredLogger | any): void {
 }
 
 /**
- * Model configuration for different complexity levels
+ * Beta flag that lets Claude think between tool calls (Anthropic API and Bedrock)
  */
-export const MODEL_CONFIG = {
-  SIMPLE: {
-    model: 'claude-haiku-4-5-20251001',
-    max_tokens: 8000,
-    thinking: {
-      type: 'disabled' as const,
-    },
-  },
-  PROCEDURAL: {
-    model: 'claude-sonnet-4-5-20250929',
-    max_tokens: 16000,
-    thinking: {
-      type: 'disabled' as const,
-    },
-  },
-  ANALYTICAL: {
-    model: 'claude-sonnet-4-5-20250929',
-    max_tokens: 16000,
-    thinking: {
-      type: 'enabled' as const,
-      budget_tokens: 10000,
-    },
-  },
-} as const;
+export const INTERLEAVED_THINKING_BETA = 'interleaved-thinking-2025-05-14';
@@ -0,0 +1,467 @@
+/**
+ * Conversation persistence
+ * Defines the ConversationStore interface and its backends (in-memory, SQLite file, Redis protocol)
+ */
+
+import Database from 'better-sqlite3';
+import Redis from 'ioredis';
+import { Conversation, ConversationStoreConfig, CostSummaryResponse, CostTotals, Logger } from './types';
+import { InMemoryCostTotals, MAX_TRACKED_CONVERSATIONS, emptyTotals } from './cost-ledger';
+import { roundUsd } from './model-pricing';
+
+/**
+ * Storage backend for conversation history
+ * Conversations are stored with their full content blocks (tool_use, tool_result, thinking)
+ * so any agent task can resume any conversation
+ */
+export interface ConversationStore {
+  /** Load a conversation, or undefined if it does not exist */
+  get(conversationId: string): Promise<Conversation | undefined>;
+  /** Insert or replace a conversation */
+  save(conversation: Conversation): Promise<void>;
+  /**
+   * Atomically clear a conversation's pending approval if it is still the given one
+   * Returns false if it was already claimed (or replaced), so approved tools run only once
+   */
+  claimPendingApproval(conversationId: string, approvalId: string): Promise<boolean>;
+  /** Remove a single conversation */
+  delete(conversationId: string): Promise<void>;
+  /** Remove conversations last accessed before the cutoff, returning their IDs */
+  deleteOlderThan(cutoff: Date): Promise<string[]>;
+  /** Number of stored conversations */
+  count(): Promise<number>;
+  /** Add one request's usage and cost to the service, user and conversation totals */
+  recordCost(conversationId: string, userId: string, delta: CostTotals): Promise<void>;
+  /** All cost totals recorded so far (the /costs report) */
+  getCostTotals(): Promise<CostSummaryResponse>;
+  /** Release connections and file handles */
+  close(): Promise<void>;
+}
+
+/**
+ * Serialize a conversation for storage
+ */
+function serializeConversation(conversation: Conversation): string {
+  return JSON.stringify({
+    ...conversation,
+    createdAt: conversation.createdAt.toISOString(),
+    lastAccessedAt: conversation.lastAccessedAt.toISOString(),
+  });
+}
+
+/**
+ * Deserialize a stored conversation (restores Date fields)
+ */
+function deserializeConversation(data: string): Conversation {
+  const parsed = JSON.parse(data);
+  return {
+    ...parsed,
+    createdAt: new Date(parsed.createdAt),
+    lastAccessedAt: new Date(parsed.lastAccessedAt),
+  };
+}
+
+/**
+ * In-Memory Conversation Store
+ * Per-process storage; conversations are lost on restart and not shared between tasks
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  private conversations: Map<string, Conversation> = new Map();
+  private costs = new InMemoryCostTotals();
+
+  async get(conversationId: string): Promise<Conversation | undefined> {
+    return this.conversations.get(conversationId);
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    this.conversations.set(conversation.id, conversation);
+  }
+
+  async claimPendingApproval(conversationId: string, approvalId: string): Promise<boolean> {
+    const conversation = this.conversations.get(conversationId);
+    if (conversation?.pendingApproval?.approvalId !== approvalId) {
+      return false;
+    }
+
+    conversation.pendingApproval = undefined;
+    return true;
+  }
+
+  async delete(conversationId: string): Promise<void> {
+    this.conversations.delete(conversationId);
+  }
+
+  async deleteOlderThan(cutoff: Date): Promise<string[]> {
+    const removed: string[] = [];
+
+    for (const [id, conversation] of this.conversations.entries()) {
+      if (conversation.lastAccessedAt.getTime() < cutoff.getTime()) {
+        this.conversations.delete(id);
+        removed.push(id);
+      }
+    }
+
+    return removed;
+  }
+
+  async count(): Promise<number> {
+    return this.conversations.size;
+  }
+
+  async recordCost(conversationId: string, userId: string, delta: CostTotals): Promise<void> {
+    this.costs.add(conversationId, userId, delta);
+  }
+
+  async getCostTotals(): Promise<CostSummaryResponse> {
+    return this.costs.snapshot();
+  }
+
+  async close(): Promise<void> {
+    this.conversations.clear();
+  }
+}
+
+/**
+ * SQLite Conversation Store
+ * Persists conversations to a local database file (survives restarts, single host only)
+ */
+export class SqliteConversationStore implements ConversationStore {
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        last_accessed_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_conversations_last_accessed
+        ON conversations (last_accessed_at);
+      CREATE TABLE IF NOT EXISTS cost_totals (
+        scope TEXT NOT NULL,
+        id TEXT NOT NULL,
+        user_id TEXT,
+        requests INTEGER NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        cache_creation_tokens INTEGER NOT NULL,
+        cache_read_tokens INTEGER NOT NULL,
+        cost_usd REAL NOT NULL,
+        unpriced_requests INTEGER NOT NULL,
+        first_request_at TEXT NOT NULL,
+        last_request_at TEXT NOT NULL,
+        PRIMARY KEY (scope, id)
+      );
+    `);
+  }
+
+  async get(conversationId: string): Promise<Conversation | undefined> {
+    const row = this.db
+      .prepare('SELECT data FROM conversations WHERE id = ?')
+      .get(conversationId) as { data: string } | undefined;
+
+    return row ? deserializeConversation(row.data) : undefined;
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO conversations (id, data, last_accessed_at) VALUES (?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET data = excluded.data, last_accessed_at = excluded.last_accessed_at`
+      )
+      .run(conversation.id, serializeConversation(conversation), conversation.lastAccessedAt.getTime());
+  }
+
+  async claimPendingApproval(conversationId: string, approvalId: string): Promise<boolean> {
+    // IMMEDIATE takes the write lock up front, so another process cannot claim between read and write
+    const claim = this.db.transaction((): boolean => {
+      const row = this.db
+        .prepare('SELECT data FROM conversations WHERE id = ?')
+        .get(conversationId) as { data: string } | undefined;
+      const conversation = row ? deserializeConversation(row.data) : undefined;
+      if (!conversation || conversation.pendingApproval?.approvalId !== approvalId) {
+        return false;
+      }
+
+      conversation.pendingApproval = undefined;
+      this.db
+        .prepare('UPDATE conversations SET data = ? WHERE id = ?')
+        .run(serializeConversation(conversation), conversationId);
+      return true;
+    });
+
+    return claim.immediate();
+  }
+
+  async delete(conversationId: string): Promise<void> {
+    this.db.prepare('DELETE FROM conversations WHERE id = ?').run(conversationId);
+  }
+
+  async deleteOlderThan(cutoff: Date): Promise<string[]> {
+    const rows = this.db
+      .prepare('DELETE FROM conversations WHERE last_accessed_at < ? RETURNING id')
+      .all(cutoff.getTime()) as Array<{ id: string }>;
+
+    return rows.map(row => row.id);
+  }
+
+  async count(): Promise<number> {
+    const row = this.db.prepare('SELECT COUNT(*) AS count FROM conversations').get() as { count: number };
+    return row.count;
+  }
+
+  async recordCost(conversationId: string, userId: string, delta: CostTotals): Promise<void> {
+    const upsert = this.db.prepare(
+      `INSERT INTO cost_totals (scope, id, user_id, requests, input_tokens, output_tokens, cache_creation_tokens,
+         cache_read_tokens, cost_usd, unpriced_requests, first_request_at, last_request_at)
+       VALUES (@scope, @id, @userId, @requests, @inputTokens, @outputTokens, @cacheCreationTokens,
+         @cacheReadTokens, @costUsd, @unpricedRequests, @lastRequestAt, @lastRequestAt)
+       ON CONFLICT(scope, id) DO UPDATE SET
+         requests = requests + excluded.requests,
+         input_tokens = input_tokens + excluded.input_tokens,
+         output_tokens = output_tokens + excluded.output_tokens,
+         cache_creation_tokens = cache_creation_tokens + excluded.cache_creation_tokens,
+         cache_read_tokens = cache_read_tokens + excluded.cache_read_tokens,
+         cost_usd = cost_usd + excluded.cost_usd,
+         unpriced_requests = unpriced_requests + excluded.unpriced_requests,
+         last_request_at = excluded.last_request_at`
+    );
+
+    this.db.transaction(() => {
+      const row = { ...delta, lastRequestAt: delta.lastRequestAt || new Date().toISOString() };
+      upsert.run({ ...row, scope: 'total', id: '', userId: null });
+      upsert.run({ ...row, scope: 'user', id: userId, userId });
+      upsert.run({ ...row, scope: 'conversation', id: conversationId, userId });
+      // Keep the most recently active conversations, like the in-memory ledger
+      this.db
+        .prepare(
+          `DELETE FROM cost_totals WHERE scope = 'conversation' AND id IN (
+             SELECT id FROM cost_totals WHERE scope = 'conversation'
+             ORDER BY last_request_at DESC LIMIT -1 OFFSET ?)`
+        )
+        .run(MAX_TRACKED_CONVERSATIONS);
+    }).immediate();
+  }
+
+  async getCostTotals(): Promise<CostSummaryResponse> {
+    const rows = this.db.prepare('SELECT * FROM cost_totals').all() as Array<Record<string, any>>;
+    const toTotals = (row: Record<string, any>): CostTotals => ({
+      requests: row.requests,
+      inputTokens: row.input_tokens,
+      outputTokens: row.output_tokens,
+      cacheCreationTokens: row.cache_creation_tokens,
+      cacheReadTokens: row.cache_read_tokens,
+      costUsd: roundUsd(row.cost_usd),
+      unpricedRequests: row.unpriced_requests,
+      lastRequestAt: row.last_request_at,
+    });
+    const total = rows.find(row => row.scope === 'total');
+
+    return {
+      since: total?.first_request_at || new Date().toISOString(),
+      total: total ? toTotals(total) : emptyTotals(),
+      users: Object.fromEntries(rows.filter(row => row.scope === 'user').map(row => [row.id, toTotals(row)])),
+      conversations: Object.fromEntries(rows
+        .filter(row => row.scope === 'conversation')
+        .map(row => [row.id, { ...toTotals(row), userId: row.user_id }])),
+    };
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+/**
+ * Redis Conversation Store
+ * Shared storage for all tasks behind the load balancer (works with Redis, Valkey and ElastiCache)
+ * Each conversation is a string key; a sorted set indexes them by last access time
+ */
+export class RedisConversationStore implements ConversationStore {
+  private redis: Redis;
+  private keyPrefix: string;
+  private ttlSeconds: number;
+
+  constructor(url: string, ttlSeconds: number, keyPrefix: string = 'dani:conversation:') {
+    this.redis = new Redis(url, { maxRetriesPerRequest: 3 });
+    this.keyPrefix = keyPrefix;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  private get indexKey(): string {
+    return `${this.keyPrefix}index`;
+  }
+
+  private conversationKey(conversationId: string): string {
+    return `${this.keyPrefix}${conversationId}`;
+  }
+
+  private approvalClaimKey(approvalId: string): string {
+    return `${this.keyPrefix}approval-claim:${approvalId}`;
+  }
+
+  /** Hash of cost totals: costs:total, costs:user:<id> or costs:conversation:<id> */
+  private costKey(scope: 'total' | 'user' | 'conversation', id?: string): string {
+    return id === undefined ? `${this.keyPrefix}costs:${scope}` : `${this.keyPrefix}costs:${scope}:${id}`;
+  }
+
+  async get(conversationId: string): Promise<Conversation | undefined> {
+    const data = await this.redis.get(this.conversationKey(conversationId));
+    return data ? deserializeConversation(data) : undefined;
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    // Key TTL is a safety net; the sorted set drives regular cleanup
+    await this.redis
+      .multi()
+      .set(this.conversationKey(conversation.id), serializeConversation(conversation), 'EX', this.ttlSeconds)
+      .zadd(this.indexKey, conversation.lastAccessedAt.getTime(), conversation.id)
+      .exec();
+  }
+
+  async claimPendingApproval(conversationId: string, approvalId: string): Promise<boolean> {
+    // SET NX lets exactly one caller (on any task) claim an approval
+    const claimed = await this.redis.set(this.approvalClaimKey(approvalId), conversationId, 'EX', this.ttlSeconds, 'NX');
+    if (claimed !== 'OK') {
+      return false;
+    }
+
+    const conversation = await this.get(conversationId);
+    if (!conversation || conversation.pendingApproval?.approvalId !== approvalId) {
+      return false;
+    }
+
+    conversation.pendingApproval = undefined;
+    await this.save(conversation);
+    return true;
+  }
+
+  async delete(conversationId: string): Promise<void> {
+    await this.redis
+      .multi()
+      .del(this.conversationKey(conversationId))
+      .zrem(this.indexKey, conversationId)
+      .exec();
+  }
+
+  async deleteOlderThan(cutoff: Date): Promise<string[]> {
+    const ids = await this.redis.zrangebyscore(this.indexKey, '-inf', `(${cutoff.getTime()}`);
+    if (ids.length === 0) {
+      return [];
+    }
+
+    await this.redis
+      .multi()
+      .del(...ids.map(id => this.conversationKey(id)))
+      .zrem(this.indexKey, ...ids)
+      .exec();
+
+    return ids;
+  }
+
+  async count(): Promise<number> {
+    return this.redis.zcard(this.indexKey);
+  }
+
+  async recordCost(conversationId: string, userId: string, delta: CostTotals): Promise<void> {
+    const lastRequestAt = delta.lastRequestAt || new Date().toISOString();
+    const usersKey = `${this.keyPrefix}costs:users`;
+    const conversationsKey = `${this.keyPrefix}costs:conversations`;
+    const transaction = this.redis.multi();
+
+    for (const key of [this.costKey('total'), this.costKey('user', userId), this.costKey('conversation', conversationId)]) {
+      transaction
+        .hincrby(key, 'requests', delta.requests)
+        .hincrby(key, 'inputTokens', delta.inputTokens)
+        .hincrby(key, 'outputTokens', delta.outputTokens)
+        .hincrby(key, 'cacheCreationTokens', delta.cacheCreationTokens)
+        .hincrby(key, 'cacheReadTokens', delta.cacheReadTokens)
+        .hincrbyfloat(key, 'costUsd', delta.costUsd)
+        .hincrby(key, 'unpricedRequests', delta.unpricedRequests)
+        .hset(key, 'lastRequestAt', lastRequestAt)
+        .hsetnx(key, 'since', lastRequestAt);
+    }
+
+    // Conversation totals expire with the conversation; the index keeps the most recently active ones
+    await transaction
+      .hset(this.costKey('conversation', conversationId), 'userId', userId)
+      .expire(this.costKey('conversation', conversationId), this.ttlSeconds)
+      .sadd(usersKey, userId)
+      .zadd(conversationsKey, Date.parse(lastRequestAt), conversationId)
+      .zremrangebyrank(conversationsKey, 0, -MAX_TRACKED_CONVERSATIONS - 1)
+      .exec();
+  }
+
+  async getCostTotals(): Promise<CostSummaryResponse> {
+    const [userIds, conversationIds] = await Promise.all([
+      this.redis.smembers(`${this.keyPrefix}costs:users`),
+      this.redis.zrange(`${this.keyPrefix}costs:conversations`, '0', '-1'),
+    ]);
+
+    const pipeline = this.redis.pipeline().hgetall(this.costKey('total'));
+    userIds.forEach(id => pipeline.hgetall(this.costKey('user', id)));
+    conversationIds.forEach(id => pipeline.hgetall(this.costKey('conversation', id)));
+    const hashes = ((await pipeline.exec()) || []).map(([, hash]) => (hash || {}) as Record<string, string>);
+
+    const toTotals = (hash: Record<string, string>): CostTotals => ({
+      requests: Number(hash.requests || 0),
+      inputTokens: Number(hash.inputTokens || 0),
+      outputTokens: Number(hash.outputTokens || 0),
+      cacheCreationTokens: Number(hash.cacheCreationTokens || 0),
+      cacheReadTokens: Number(hash.cacheReadTokens || 0),
+      costUsd: roundUsd(Number(hash.costUsd || 0)),
+      unpricedRequests: Number(hash.unpricedRequests || 0),
+      lastRequestAt: hash.lastRequestAt,
+    });
+    const [total, ...rest] = hashes;
+    const users = rest.slice(0, userIds.length);
+    const conversations = rest.slice(userIds.length);
+
+    return {
+      since: total?.since || new Date().toISOString(),
+      total: toTotals(total || {}),
+      users: Object.fromEntries(userIds.map((id, index) => [id, toTotals(users[index])])),
+      conversations: Object.fromEntries(conversationIds
+        .map((id, index) => [id, conversations[index]] as const)
+        .filter(([, hash]) => hash.requests !== undefined)  // expired with the conversation
+        .map(([id, hash]) => [id, { ...toTotals(hash), userId: hash.userId }])),
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
+
+/**
+ * Create the conversation store configured for this deployment
+ */
+export function createConversationStore(
+  config: ConversationStoreConfig | undefined,
+  conversationTimeoutMinutes: number,
+  logger: Logger
+): ConversationStore {
+  const type = config?.type || 'memory';
+
+  switch (type) {
+    case 'sqlite': {
+      const filePath = config?.sqlitePath || 'conversations.db';
+      logger.info('Using SQLite conversation store', { filePath });
+      return new SqliteConversationStore(filePath);
+    }
+    case 'redis': {
+      if (!config?.redisUrl) {
+        throw new Error('REDIS_URL is required when CONVERSATION_STORE=redis');
+      }
+      logger.info('Using Redis conversation store');
+      return new RedisConversationStore(config.redisUrl, conversationTimeoutMinutes * 60);
+    }
+    case 'memory':
+      logger.info('Using in-memory conversation store');
+      return new InMemoryConversationStore();
+    default:
+      throw new Error(`Unknown conversation store type: ${type}`);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Rolling conversation summarization
+ * Compresses turns evicted by history trimming into a running summary using the SIMPLE-tier model
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { Logger } from './types';
+import { AIClient } from './ai-client.interface';
+
+/**
+ * Number of messages the pinned summary block occupies at the front of Conversation.messages
+ * (a user turn carrying the summary and an assistant acknowledgement, keeping roles alternating)
+ */
+export const PINNED_SUMMARY_MESSAGE_COUNT = 2;
+
+/**
+ * Marker that identifies the pinned summary turn
+ */
+const SUMMARY_TAG = 'conversation_summary';
+
+/**
+ * Maximum characters of a single tool result included in the summarization transcript
+ */
+const MAX_TOOL_RESULT_CHARS = 2000;
+
+/**
+ * Instructions for the summarization call
+ */
+const SUMMARY_INSTRUCTIONS = `You are maintaining a running summary of an earlier part of a support conversation between a user and DANI, a network infrastructure assistant.
+
+Update the existing summary (if any) with the new transcript excerpt below. The summary replaces these turns in the conversation, so preserve everything needed to continue the conversation:
+- Every device ID, device name, group, site, account and service that was discussed
+- Key facts and numbers returned by tools (statuses, counts, timestamps, firmware versions)
+- What the user asked for, what was concluded, and any open questions or pending actions
+
+Be concise and factual. Use short bullet points. Respond with ONLY the updated summary.`;
+
+/**
+ * Build the pinned summary turns placed at the front of the conversation
+ */
+export function buildPinnedSummary(summary: string): Anthropic.MessageParam[] {
+  return [
+    {
+      role: 'user',
+      content: `<${SUMMARY_TAG}>\nSummary of the earlier part of this conversation:\n${summary}\n</${SUMMARY_TAG}>`,
+    },
+    {
+      role: 'assistant',
+      content: 'Understood. I will use this summary as context for the rest of the conversation.',
+    },
+  ];
+}
+
+/**
+ * Check whether a conversation starts with a pinned summary block
+ */
+export function hasPinnedSummary(messages: Anthropic.MessageParam[]): boolean {
+  const first = messages[0];
+  return !!first
+    && first.role === 'user'
+    && typeof first.content === 'string'
+    && first.content.startsWith(`<${SUMMARY_TAG}>`);
+}
+
+/**
+ * Conversation Summarizer
+ * Produces an updated running summary from the previous summary and newly evicted turns
+ */
+export class ConversationSummarizer {
+  private aiClient: AIClient;
+  private logger: Logger;
+
+  constructor(aiClient: AIClient, logger: Logger) {
+    this.aiClient = aiClient;
+    this.logger = logger;
+  }
+
+  /**
+   * Merge evicted messages into the running summary
+   */
+  async summarize(previousSummary: string | undefined, evicted: Anthropic.MessageParam[]): Promise<string> {
+    const startTime = Date.now();
+
+    const prompt = [
+      SUMMARY_INSTRUCTIONS,
+      `<existing_summary>\n${previousSummary || '(none yet)'}\n</existing_summary>`,
+      `<transcript>\n${this.renderTranscript(evicted)}\n</transcript>`,
+    ].join('\n\n');
+
+    const response = await this.aiClient.sendMessage(
+      [{ role: 'user', content: prompt }],
+      [],
+      'SIMPLE'
+    );
+
+    const summary = this.aiClient.extractTextContent(response).trim();
+    if (!summary) {
+      throw new Error('Summarization returned no text');
+    }
+
+    this.logger.info('Conversation summary updated', {
+      evictedMessages: evicted.length,
+      summaryLength: summary.length,
+      duration: `${Date.now() - startTime}ms`,
+      usage: this.aiClient.extractUsageStats(response),
+    });
+
+    return summary;
+  }
+
+  /**
+   * Render messages as a plain-text transcript (tool calls and results included)
+   */
+  private renderTranscript(messages: Anthropic.MessageParam[]): string {
+    const lines: string[] = [];
+
+    for (const message of messages) {
+      const speaker = message.role === 'user' ? 'User' : 'DANI';
+
+      if (typeof message.content === 'string') {
+        lines.push(`${speaker}: ${message.content}`);
+        continue;
+      }
+
+      for (const block of message.content as any[]) {
+        if (block.type === 'text') {
+          lines.push(`${speaker}: ${block.text}`);
+        } else if (block.type === 'tool_use') {
+          lines.push(`DANI called tool ${block.name} with ${JSON.stringify(block.input)}`);
+        } else if (block.type === 'tool_result') {
+          const content = typeof block.content === 'string'
+            ? block.content
+            : JSON.stringify(block.content);
+          const truncated = content.length > MAX_TOOL_RESULT_CHARS
+            ? `${content.substring(0, MAX_TOOL_RESULT_CHARS)}... [truncated]`
+            : content;
+          lines.push(`Tool result${block.is_error ? ' (error)' : ''}: ${truncated}`);
+        }
+      }
+    }
+
+    return lines.join('\n');
+  }
+}
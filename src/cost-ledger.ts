@@ -0,0 +1,158 @@
+/**
+ * Cost ledger
+ * Aggregates token usage and cost per user and per conversation for the /costs report
+ */
+
+import { CostReport, CostSummaryResponse, CostTotals, Logger, UsageStats } from './types';
+import { roundUsd } from './model-pricing';
+import type { ConversationStore } from './conversation-store';
+
+/**
+ * Requests without a userId are reported under this name
+ */
+export const ANONYMOUS_USER = 'anonymous';
+
+/**
+ * Conversations kept in the ledger; the least recently active ones are dropped first
+ * (user and service totals are unaffected)
+ */
+export const MAX_TRACKED_CONVERSATIONS = 10000;
+
+/**
+ * Cost Ledger
+ * Totals are kept by the conversation store, so the sqlite and redis backends keep them across restarts
+ * and for all tasks; the memory backend keeps them per task since it started
+ */
+export class CostLedger {
+  private store: ConversationStore;
+  private logger: Logger;
+
+  constructor(store: ConversationStore, logger: Logger) {
+    this.store = store;
+    this.logger = logger;
+  }
+
+  /**
+   * Record a completed request
+   * A failed write is logged, not thrown, so the answer still reaches the user
+   */
+  async record(conversationId: string, userId: string | undefined, usage: UsageStats, cost?: CostReport): Promise<void> {
+    try {
+      await this.store.recordCost(conversationId, userId || ANONYMOUS_USER, {
+        requests: 1,
+        inputTokens: usage.input_tokens,
+        outputTokens: usage.output_tokens,
+        cacheCreationTokens: usage.cache_creation_tokens,
+        cacheReadTokens: usage.cache_read_tokens,
+        costUsd: cost ? cost.totalUsd : 0,
+        unpricedRequests: cost ? 0 : 1,
+        lastRequestAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.logger.warn('Failed to record request cost', {
+        conversationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Build the report, optionally limited to one user and/or conversation
+   */
+  async getSummary(filter: { userId?: string; conversationId?: string } = {}): Promise<CostSummaryResponse> {
+    const stored = await this.store.getCostTotals();
+    const conversations = Object.entries(stored.conversations).filter(([id, totals]) =>
+      (!filter.conversationId || id === filter.conversationId)
+      && (!filter.userId || (totals.userId || ANONYMOUS_USER) === filter.userId)
+    );
+    const users = filter.userId
+      ? Object.entries(stored.users).filter(([id]) => id === filter.userId)
+      : Object.entries(stored.users);
+
+    return {
+      since: stored.since,
+      total: filter.userId || filter.conversationId
+        ? sumTotals(filter.conversationId ? conversations.map(([, totals]) => totals) : users.map(([, totals]) => totals))
+        : stored.total,
+      users: Object.fromEntries(filter.conversationId ? [] : users),
+      conversations: Object.fromEntries(conversations),
+    };
+  }
+}
+
+/**
+ * In-memory cost totals (used by the in-memory conversation store)
+ */
+export class InMemoryCostTotals {
+  private readonly since = new Date().toISOString();
+  private total: CostTotals = emptyTotals();
+  private users: Map<string, CostTotals> = new Map();
+  private conversations: Map<string, CostTotals & { userId?: string }> = new Map();
+
+  /**
+   * Add one request to the service, user and conversation totals
+   */
+  add(conversationId: string, userId: string, delta: CostTotals): void {
+    const userTotals = this.users.get(userId) || emptyTotals();
+    this.users.set(userId, userTotals);
+
+    // Re-insert so the map stays ordered by last activity
+    const conversationTotals = this.conversations.get(conversationId) || { ...emptyTotals(), userId };
+    this.conversations.delete(conversationId);
+    this.conversations.set(conversationId, conversationTotals);
+    if (this.conversations.size > MAX_TRACKED_CONVERSATIONS) {
+      this.conversations.delete(this.conversations.keys().next().value!);
+    }
+
+    for (const totals of [this.total, userTotals, conversationTotals]) {
+      Object.assign(totals, sumTotals([totals, delta]));
+    }
+  }
+
+  /**
+   * Copy of all totals
+   */
+  snapshot(): CostSummaryResponse {
+    return {
+      since: this.since,
+      total: { ...this.total },
+      users: Object.fromEntries(Array.from(this.users.entries()).map(([id, totals]) => [id, { ...totals }])),
+      conversations: Object.fromEntries(
+        Array.from(this.conversations.entries()).map(([id, totals]) => [id, { ...totals }])
+      ),
+    };
+  }
+}
+
+/**
+ * Totals with nothing recorded yet
+ */
+export function emptyTotals(): CostTotals {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    costUsd: 0,
+    unpricedRequests: 0,
+  };
+}
+
+/**
+ * Add up totals (lastRequestAt is the latest of them)
+ */
+export function sumTotals(items: CostTotals[]): CostTotals {
+  return items.reduce<CostTotals>((sum, item) => ({
+    requests: sum.requests + item.requests,
+    inputTokens: sum.inputTokens + item.inputTokens,
+    outputTokens: sum.outputTokens + item.outputTokens,
+    cacheCreationTokens: sum.cacheCreationTokens + item.cacheCreationTokens,
+    cacheReadTokens: sum.cacheReadTokens + item.cacheReadTokens,
+    costUsd: roundUsd(sum.costUsd + item.costUsd),
+    unpricedRequests: sum.unpricedRequests + item.unpricedRequests,
+    lastRequestAt: !sum.lastRequestAt || (item.lastRequestAt && item.lastRequestAt > sum.lastRequestAt)
+      ? item.lastRequestAt
+      : sum.lastRequestAt,
+  }), emptyTotals());
+}
@@ -0,0 +1,126 @@
+/**
+ * Per-server credential injection
+ * Resolves the user context values an MCP server declares it needs and delivers them
+ * as hidden tool arguments, HTTP headers on the transport request, or MCP _meta fields
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { MCPCredentialRule, CredentialSource } from './types';
+import type { UserContext } from './mcp-client';
+
+/**
+ * Credentials resolved for a single tool call, grouped by delivery channel
+ */
+export interface InjectedCredentials {
+  arguments: Record<string, string>;
+  headers: Record<string, string>;
+  meta: Record<string, string>;
+}
+
+/**
+ * Fixed credential sources; per-service keys use "credentials.<name>"
+ */
+export const CREDENTIAL_SOURCES: string[] = ['userId', 'drmApiKeys.apiKeyId', 'drmApiKeys.apiKeySecret'];
+
+/**
+ * Headers for the tool call currently executing (read by the transport's fetch)
+ */
+const callHeaders = new AsyncLocalStorage<Record<string, string>>();
+
+/**
+ * Check whether a string names a valid credential source
+ */
+export function isCredentialSource(source: string): source is CredentialSource {
+  return CREDENTIAL_SOURCES.includes(source)
+    || (source.startsWith('credentials.') && source.length > 'credentials.'.length);
+}
+
+/**
+ * Read a credential value from the user context
+ */
+export function readCredential(source: CredentialSource, userContext?: UserContext): string | undefined {
+  switch (source) {
+    case 'userId':
+      return userContext?.userId;
+    case 'drmApiKeys.apiKeyId':
+      return userContext?.drmApiKeys?.apiKeyId;
+    case 'drmApiKeys.apiKeySecret':
+      return userContext?.drmApiKeys?.apiKeySecret;
+    default:
+      return userContext?.credentials?.[source.substring('credentials.'.length)];
+  }
+}
+
+/**
+ * Resolve a server's credential rules against the user context
+ * Rules apply as a set: if a rule without a default has no value, nothing is injected
+ */
+export function resolveCredentials(
+  rules: MCPCredentialRule[] | undefined,
+  userContext?: UserContext
+): InjectedCredentials | undefined {
+  if (!rules || rules.length === 0) {
+    return undefined;
+  }
+
+  const injected: InjectedCredentials = { arguments: {}, headers: {}, meta: {} };
+
+  for (const rule of rules) {
+    const value = readCredential(rule.source, userContext) ?? rule.default;
+    if (value === undefined) {
+      return undefined;
+    }
+
+    if (rule.argument) {
+      injected.arguments[rule.argument] = value;
+    } else if (rule.header) {
+      injected.headers[rule.header] = value;
+    } else if (rule.meta) {
+      injected.meta[rule.meta] = value;
+    }
+  }
+
+  return injected;
+}
+
+/**
+ * Describe injected credentials by name only (safe to log)
+ */
+export function describeCredentials(injected: InjectedCredentials): Record<string, string[]> {
+  return {
+    arguments: Object.keys(injected.arguments),
+    headers: Object.keys(injected.headers),
+    meta: Object.keys(injected.meta),
+  };
+}
+
+/**
+ * Request params carrying the credentials delivered as MCP _meta fields (empty if none)
+ */
+export function toMetaParams(injected?: InjectedCredentials): { _meta?: Record<string, string> } {
+  return injected && Object.keys(injected.meta).length > 0 ? { _meta: injected.meta } : {};
+}
+
+/**
+ * Run a tool call with per-call HTTP headers attached to the transport's requests
+ */
+export function withCredentialHeaders<T>(headers: Record<string, string>, fn: () => Promise<T>): Promise<T> {
+  if (Object.keys(headers).length === 0) {
+    return fn();
+  }
+  return callHeaders.run(headers, fn);
+}
+
+/**
+ * fetch implementation for HTTP transports that adds the current call's credential headers
+ */
+export const credentialFetch: typeof fetch = (input, init) => {
+  const headers = callHeaders.getStore();
+  if (!headers) {
+    return fetch(input, init);
+  }
+
+  const merged = new Headers(init?.headers);
+  Object.entries(headers).forEach(([name, value]) => merged.set(name, value));
+  return fetch(input, { ...init, headers: merged });
+};
@@ -0,0 +1,294 @@
+/**
+ * Model fallback chain
+ * A composite AIClient that tries an ordered list of provider/model targets per complexity level
+ * (other model tiers go to the primary client) and fails over when a target is overloaded, throttled, erroring or too slow
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  ComplexityLevel,
+  ModelTierName,
+  ModelToolChoice,
+  UsageStats,
+  Logger,
+  AnthropicTool,
+  ModelStreamEvent,
+  ModelServedBy,
+  ModelTarget,
+  AppConfig,
+} from './types';
+import { AIClient } from './ai-client.interface';
+import { AnthropicClient } from './anthropic-client';
+import { BedrockClient } from './bedrock-client';
+import { RequestCancelledError, throwIfCancelled } from './request-cancellation';
+
+/**
+ * Default time a target may take to respond (or to start streaming) before the next one is tried
+ */
+export const DEFAULT_MODEL_TIMEOUT_MS = 120000;
+
+/**
+ * AWS SDK error names that mean the target is temporarily unavailable
+ */
+const FAILOVER_ERROR_NAMES = [
+  'ThrottlingException',
+  'ServiceUnavailableException',
+  'InternalServerException',
+  'ModelNotReadyException',
+  'ModelTimeoutException',
+  'TimeoutError',
+];
+
+/**
+ * A target together with the client that calls it
+ */
+export interface FallbackTarget {
+  target: ModelTarget;
+  client: AIClient;
+}
+
+/**
+ * Check whether an error (after the client's own retries) should move on to the next target
+ * Request errors such as validation failures are not retried elsewhere
+ */
+export function isFailoverError(error: unknown): boolean {
+  if (error instanceof Anthropic.APIConnectionError) {
+    return true;
+  }
+
+  const status = (error as any)?.status ?? (error as any)?.$metadata?.httpStatusCode;
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  return FAILOVER_ERROR_NAMES.includes((error as any)?.name);
+}
+
+/**
+ * Fallback AI Client
+ * Each complexity level has its own ordered chain; responses remember which target served them
+ * Tiers without a chain are sent to the primary client as is
+ */
+export class FallbackAIClient implements AIClient {
+  private chains: Partial<Record<ComplexityLevel, FallbackTarget[]>>;
+  private primary: AIClient;
+  private logger: Logger;
+  private defaultTimeoutMs: number;
+  private origins: WeakMap<Anthropic.Message, { client: AIClient; servedBy: ModelServedBy }> = new WeakMap();
+
+  constructor(
+    chains: Partial<Record<ComplexityLevel, FallbackTarget[]>>,
+    primary: AIClient,
+    logger: Logger,
+    defaultTimeoutMs: number = DEFAULT_MODEL_TIMEOUT_MS
+  ) {
+    for (const [complexity, chain] of Object.entries(chains)) {
+      if (!chain || chain.length === 0) {
+        throw new Error(`Model fallback chain for ${complexity} is empty`);
+      }
+    }
+
+    this.chains = chains;
+    this.primary = primary;
+    this.logger = logger;
+    this.defaultTimeoutMs = defaultTimeoutMs;
+  }
+
+  /**
+   * Send a message to the first target of the chain that answers
+   */
+  async sendMessage(
+    messages: Anthropic.MessageParam[],
+    tools: AnthropicTool[],
+    tier: ModelTierName = 'ANALYTICAL',
+    signal?: AbortSignal,
+    maxTokens?: number,
+    toolChoice?: ModelToolChoice
+  ): Promise<Anthropic.Message> {
+    const chain = this.chainFor(tier);
+    if (!chain) {
+      return this.primary.sendMessage(messages, tools, tier, signal, maxTokens, toolChoice);
+    }
+
+    return this.runChain(tier, chain, signal, (client, attemptSignal) =>
+      client.sendMessage(messages, tools, tier, attemptSignal, maxTokens, toolChoice)
+    );
+  }
+
+  /**
+   * Stream a message from the first target of the chain that answers
+   * Once a target has streamed output it is committed to: later failures are not retried elsewhere,
+   * and its timeout no longer applies
+   */
+  async streamMessage(
+    messages: Anthropic.MessageParam[],
+    tools: AnthropicTool[],
+    tier: ModelTierName = 'ANALYTICAL',
+    onEvent: (event: ModelStreamEvent) => void,
+    signal?: AbortSignal,
+    maxTokens?: number,
+    toolChoice?: ModelToolChoice
+  ): Promise<Anthropic.Message> {
+    const chain = this.chainFor(tier);
+    if (!chain) {
+      return this.primary.streamMessage(messages, tools, tier, onEvent, signal, maxTokens, toolChoice);
+    }
+
+    return this.runChain(tier, chain, signal, (client, attemptSignal, onStarted) =>
+      client.streamMessage(messages, tools, tier, (event) => {
+        onStarted();
+        onEvent(event);
+      }, attemptSignal, maxTokens, toolChoice)
+    );
+  }
+
+  /**
+   * Fallback chain of a tier (undefined if the tier has none)
+   */
+  private chainFor(tier: ModelTierName): FallbackTarget[] | undefined {
+    return Object.prototype.hasOwnProperty.call(this.chains, tier)
+      ? this.chains[tier as ComplexityLevel]
+      : undefined;
+  }
+
+  /**
+   * Try each target in order until one succeeds
+   */
+  private async runChain(
+    tier: ModelTierName,
+    chain: FallbackTarget[],
+    signal: AbortSignal | undefined,
+    call: (client: AIClient, attemptSignal: AbortSignal, onStarted: () => void) => Promise<Anthropic.Message>
+  ): Promise<Anthropic.Message> {
+    let lastError: unknown;
+
+    for (const [index, { target, client }] of chain.entries()) {
+      throwIfCancelled(signal);
+
+      const timeoutMs = target.timeoutMs ?? this.defaultTimeoutMs;
+      const attempt = new AbortController();
+      const onAbort = () => attempt.abort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      let timer: NodeJS.Timeout | undefined = setTimeout(() => attempt.abort(), timeoutMs);
+      let started = false;
+      const onStarted = () => {
+        started = true;
+        clearTimeout(timer);
+        timer = undefined;
+      };
+
+      try {
+        const message = await call(client, attempt.signal, onStarted);
+        const servedBy: ModelServedBy = { provider: target.provider, model: message.model, failedOver: index > 0 };
+        this.origins.set(message, { client, servedBy });
+
+        if (index > 0) {
+          this.logger.warn('Model request served by fallback target', {
+            tier,
+            provider: target.provider,
+            model: target.model,
+            position: index + 1,
+          });
+        }
+
+        return message;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error instanceof RequestCancelledError ? error : new RequestCancelledError();
+        }
+
+        const timedOut = attempt.signal.aborted;
+        const errorMessage = timedOut
+          ? `No response within ${timeoutMs}ms`
+          : (error instanceof Error ? error.message : String(error));
+
+        if (started || (!timedOut && !isFailoverError(error))) {
+          throw error;
+        }
+
+        this.logger.warn('Model target failed', {
+          tier,
+          provider: target.provider,
+          model: target.model,
+          error: errorMessage,
+          nextTarget: chain[index + 1] ? `${chain[index + 1].target.provider}:${chain[index + 1].target.model}` : undefined,
+        });
+        lastError = timedOut ? new Error(`Model ${target.model} (${target.provider}): ${errorMessage}`) : error;
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Client that produced a response (the primary client for responses not served by a chain)
+   */
+  private clientFor(response: Anthropic.Message): AIClient {
+    return this.origins.get(response)?.client || this.primary;
+  }
+
+  extractUsageStats(response: Anthropic.Message): UsageStats {
+    return this.clientFor(response).extractUsageStats(response);
+  }
+
+  extractTextContent(response: Anthropic.Message): string {
+    return this.clientFor(response).extractTextContent(response);
+  }
+
+  extractThinkingContent(response: Anthropic.Message): string | undefined {
+    return this.clientFor(response).extractThinkingContent(response);
+  }
+
+  extractToolUses(response: Anthropic.Message): Anthropic.ToolUseBlock[] {
+    return this.clientFor(response).extractToolUses(response);
+  }
+
+  hasToolUse(response: Anthropic.Message): boolean {
+    return this.clientFor(response).hasToolUse(response);
+  }
+
+  extractServedBy(response: Anthropic.Message): ModelServedBy {
+    return this.origins.get(response)?.servedBy || this.clientFor(response).extractServedBy(response);
+  }
+}
+
+/**
+ * Build the fallback client from the configured chains
+ * Tiers without a chain use the primary client alone
+ */
+export function createFallbackAIClient(config: AppConfig, primary: AIClient, logger: Logger): FallbackAIClient {
+
+  const createClient = (target: ModelTarget): AIClient => {
+    const modelOverride = { model: target.model, ...(target.maxTokens ? { max_tokens: target.maxTokens } : {}) };
+    return target.provider === 'bedrock'
+      ? new BedrockClient(
+          config.awsRegion!,
+          config.systemMessage,
+          logger,
+          config.awsAccessKeyId,
+          config.awsSecretAccessKey,
+          modelOverride,
+          config.interleavedThinking
+        )
+      : new AnthropicClient(
+          config.anthropicApiKey!,
+          config.systemMessage,
+          logger,
+          config.cacheTTL,
+          modelOverride,
+          config.interleavedThinking
+        );
+  };
+
+  const chains = Object.fromEntries(
+    Object.entries(config.modelFallbacks || {}).map(([complexity, targets]) => [
+      complexity,
+      targets.map(target => ({ target, client: createClient(target) })),
+    ])
+  ) as Partial<Record<ComplexityLevel, FallbackTarget[]>>;
+
+  return new FallbackAIClient(chains, primary, logger, config.modelTimeoutMs);
+}
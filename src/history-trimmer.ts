@@ -0,0 +1,165 @@
+/**
+ * Conversation history trimming
+ * Trims by message count and/or estimated tokens without splitting tool_use/tool_result pairs
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+
+/**
+ * Limits applied when trimming history (either may be omitted)
+ */
+export interface TrimLimits {
+  maxMessages?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Result of a trim pass
+ */
+export interface TrimResult {
+  messages: Anthropic.MessageParam[];
+  removed: Anthropic.MessageParam[];
+  removedCount: number;
+  estimatedTokens: number;
+}
+
+/**
+ * A group of messages that must be kept or dropped together:
+ * a single message, or an assistant tool_use turn plus its tool_result turn
+ */
+interface HistoryUnit {
+  messages: Anthropic.MessageParam[];
+  tokens: number;
+  isPlainUser: boolean;
+  isToolPair: boolean;
+}
+
+/**
+ * Rough token estimate for a message (~4 characters per token)
+ * Good enough for budgeting; the provider's usage numbers remain the source of truth
+ */
+export function estimateMessageTokens(message: Anthropic.MessageParam): number {
+  const text = typeof message.content === 'string'
+    ? message.content
+    : JSON.stringify(message.content);
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Check if a message is a user turn carrying tool results
+ */
+export function isToolResultMessage(message: Anthropic.MessageParam): boolean {
+  return message.role === 'user'
+    && Array.isArray(message.content)
+    && message.content.some((block: any) => block.type === 'tool_result');
+}
+
+/**
+ * Check if a message is an assistant turn requesting tools
+ */
+export function isToolUseMessage(message: Anthropic.MessageParam): boolean {
+  return message.role === 'assistant'
+    && Array.isArray(message.content)
+    && message.content.some((block: any) => block.type === 'tool_use');
+}
+
+/**
+ * Check if a message is a user turn written by the user (not tool results)
+ */
+export function isPlainUserMessage(message: Anthropic.MessageParam): boolean {
+  return message.role === 'user' && !isToolResultMessage(message);
+}
+
+/**
+ * Group messages into atomic units
+ */
+function groupIntoUnits(messages: Anthropic.MessageParam[]): HistoryUnit[] {
+  const units: HistoryUnit[] = [];
+
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+    const next = messages[i + 1];
+
+    const group = isToolUseMessage(message) && next && isToolResultMessage(next)
+      ? [message, next]
+      : [message];
+
+    units.push({
+      messages: group,
+      tokens: group.reduce((sum, m) => sum + estimateMessageTokens(m), 0),
+      isPlainUser: isPlainUserMessage(message),
+      isToolPair: group.length === 2,
+    });
+
+    i += group.length - 1;
+  }
+
+  return units;
+}
+
+/**
+ * Trim conversation history to fit the given limits
+ *
+ * 1. Leading units are dropped until the history starts on a plain user turn
+ * 2. Whole units are dropped from the front, always landing on a plain user turn,
+ *    but never past the most recent plain user turn (the request being answered)
+ * 3. If still over the limits, older tool pairs inside the current request are dropped,
+ *    always keeping the latest pair so the model sees its most recent results
+ */
+export function trimHistory(messages: Anthropic.MessageParam[], limits: TrimLimits): TrimResult {
+  const units = groupIntoUnits(messages);
+
+  const countMessages = (list: HistoryUnit[]) => list.reduce((sum, u) => sum + u.messages.length, 0);
+  const countTokens = (list: HistoryUnit[]) => list.reduce((sum, u) => sum + u.tokens, 0);
+  const overLimits = (list: HistoryUnit[]) =>
+    (limits.maxMessages !== undefined && countMessages(list) > limits.maxMessages) ||
+    (limits.maxTokens !== undefined && countTokens(list) > limits.maxTokens);
+
+  let lastPlainUser = -1;
+  units.forEach((unit, index) => {
+    if (unit.isPlainUser) {
+      lastPlainUser = index;
+    }
+  });
+
+  let kept = units;
+
+  if (lastPlainUser >= 0) {
+    // Drop leading units until the history starts on a plain user turn
+    let start = 0;
+    while (start < lastPlainUser && !units[start].isPlainUser) {
+      start++;
+    }
+
+    // Drop whole exchanges from the front while over the limits
+    while (start < lastPlainUser && overLimits(units.slice(start))) {
+      start++;
+      while (start < lastPlainUser && !units[start].isPlainUser) {
+        start++;
+      }
+    }
+
+    kept = units.slice(start);
+
+    // Drop the oldest tool pairs of the current request, keeping the latest one
+    const currentStart = lastPlainUser - start + 1;
+    while (overLimits(kept)) {
+      const lastPairIndex = kept.map(u => u.isToolPair).lastIndexOf(true);
+      const pairIndex = kept.findIndex((u, index) => index >= currentStart && u.isToolPair);
+      if (pairIndex === -1 || pairIndex === lastPairIndex) {
+        break;
+      }
+      kept = [...kept.slice(0, pairIndex), ...kept.slice(pairIndex + 1)];
+    }
+  }
+
+  const trimmed = kept.flatMap(u => u.messages);
+  const keptSet = new Set(trimmed);
+
+  return {
+    messages: trimmed,
+    removed: messages.filter(m => !keptSet.has(m)),
+    removedCount: messages.length - trimmed.length,
+    estimatedTokens: countTokens(kept),
+  };
+}
@@ -14,15 +14,30 @@ import express, { Request, Response, NextFunction } from 'express';
 import { createConfigAsync, createLogger, logEnvironmentInfo } from './config';
 import { AnthropicClient } from './anthropic-client';
 import { BedrockClient } from './bedrock-client';
-import { MCPClientManager } from './mcp-client';
+import { AIClient } from './ai-client.interface';
+import { createFallbackAIClient } from './fallback-ai-client';
+import { TieredAIClient } from './tiered-ai-client';
+import { modelTiers } from './model-tiers';
+import { MCPClientManager, UserContext } from './mcp-client';
 import { DANIAgent } from './agent';
+import { createConversationStore } from './conversation-store';
+import { ApprovalError } from './tool-approval';
+import { RequestCancelledError } from './request-cancellation';
+import { validateRequestBudget } from './request-budget';
 import { QueryAnalyzer } from './query-analyzer';
 import {
   ChatRequest,
+  ApprovalRequest,
+  ResourceReadRequest,
+  PromptRenderRequest,
   ChatResponse,
+  AgentResponse,
   ErrorResponse,
   HealthResponse,
+  CostSummaryResponse,
   ComplexityLevel,
+  ModelTierName,
+  ModelProvider,
   AppConfig,
   Logger,
 } from './types';
@@ -82,9 +97,17 @@ app.get('/health', (_req: Request, res: Response<HealthResponse>) => {
 
   const serverStatuses = mcpManager.getServerStatuses();
   const mcpServers: { [key: string]: 'connected' | 'disconnected' | 'error' } = {};
+  const mcpServerDetails: NonNullable<HealthResponse['mcp_server_details']> = {};
 
   let allConnected = true;
   for (const [name, status] of serverStatuses.entries()) {
+    mcpServerDetails[name] = {
+      transport: status.transport,
+      lastConnectedAt: status.lastConnectedAt,
+      consecutiveFailures: status.consecutiveFailures || 0,
+      lastError: status.lastError,
+    };
+
     if (status.connected) {
       mcpServers[name] = 'connected';
     } else if (status.error) {
@@ -101,40 +124,151 @@ app.get('/health', (_req: Request, res: Response<HealthResponse>) => {
   return res.json({
     status: healthStatus,
     mcp_servers: mcpServers,
+    mcp_server_details: mcpServerDetails,
+    tool_validation_failures: agent?.getToolValidationFailures(),
     uptime: (Date.now() - startTime) / 1000,
     timestamp: new Date().toISOString(),
     task_definition: process.env.ECS_TASK_DEFINITION || 'unknown',
   });
 });
 
+/**
+ * Build the user context passed to MCP servers from request fields
+ * Returns an error message if per-service credentials are malformed
+ */
+function buildUserContext(
+  fields: Pick<ChatRequest, 'userId' | 'drmApiKeys' | 'credentials'>
+): { error: string } | { userContext?: UserContext } {
+  const { userId, drmApiKeys, credentials } = fields;
+
+  if (credentials !== undefined) {
+    const valid = typeof credentials === 'object'
+      && credentials !== null
+      && !Array.isArray(credentials)
+      && Object.values(credentials).every(value => typeof value === 'string');
+    if (!valid) {
+      return { error: 'Invalid "credentials" field. Must be an object of string values' };
+    }
+  }
+
+  if (!userId && !drmApiKeys && !credentials) {
+    return {};
+  }
+  return { userContext: { userId, drmApiKeys, credentials } };
+}
+
+/**
+ * Validate a chat request body
+ * Returns the parsed fields, or an error message suitable for a 400 response
+ */
+function parseChatRequest(body: ChatRequest):
+  | { error: string }
+  | { message: string; complexity?: ComplexityLevel; tier?: ModelTierName; userContext?: UserContext } {
+  const { message, complexity, tier } = body;
+
+  if (!message || typeof message !== 'string' || message.trim().length === 0) {
+    return { error: 'Missing or invalid "message" field' };
+  }
+
+  // Validate complexity if provided
+  if (complexity) {
+    const validComplexities: ComplexityLevel[] = ['SIMPLE', 'PROCEDURAL', 'ANALYTICAL'];
+    if (!validComplexities.includes(complexity)) {
+      return { error: `Invalid complexity level. Must be one of: ${validComplexities.join(', ')}` };
+    }
+  }
+
+  // Validate tier if provided (tiers may change when the tier file is reloaded)
+  if (tier !== undefined && (typeof tier !== 'string' || !modelTiers.has(tier))) {
+    return { error: `Invalid "tier" field. Must be one of: ${modelTiers.names().join(', ')}` };
+  }
+
+  if (body.budget !== undefined) {
+    const budgetError = validateRequestBudget(body.budget);
+    if (budgetError) {
+      return { error: `Invalid "budget" field: ${budgetError}` };
+    }
+  }
+
+  // Build user context
+  const context = buildUserContext(body);
+  if ('error' in context) {
+    return context;
+  }
+
+  return { message: message.trim(), complexity, tier, userContext: context.userContext };
+}
+
+/**
+ * Build the /chat response body from an agent result
+ */
+function toChatResponse(result: AgentResponse): ChatResponse {
+  return {
+    response: result.response,
+    conversationId: result.conversationId,
+    model: result.model,
+    usage: result.usage,
+    iterations: result.iterations,
+    toolCallDetails: result.toolCallDetails,
+    reasoningSteps: result.reasoningSteps,
+    pendingApproval: result.pendingApproval,
+    accuracyIssues: result.accuracyIssues,
+    accuracyCorrected: result.accuracyCorrected,
+    truncated: result.truncated,
+    budgetExceeded: result.budgetExceeded,
+    cost: result.cost,
+    servedBy: result.servedBy,
+  };
+}
+
+/**
+ * Write a single Server-Sent Event
+ */
+function writeSSE(res: Response, event: string, data: unknown): void {
+  if (res.writableEnded) {
+    return;
+  }
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Abort the agent's work when the client goes away before the response is complete
+ */
+function abortOnDisconnect(res: Response): AbortController {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  return controller;
+}
+
+/**
+ * Error body for a request that was cancelled (client disconnect or the cancel endpoint)
+ */
+function cancelledResponse(conversationId?: string): ErrorResponse {
+  return {
+    error: 'Request Cancelled',
+    message: 'The request was cancelled before it completed',
+    conversationId,
+  };
+}
+
 /**
  * Chat endpoint - main agent interface
  */
 app.post('/chat', async (req: Request<{}, {}, ChatRequest>, res: Response<ChatResponse | ErrorResponse>) => {
   try {
     // Validate request body
-    const { message, conversationId, complexity, userId, drmApiKeys, messages } = req.body;
-
-    if (!message || typeof message !== 'string' || message.trim().length === 0) {
+    const parsed = parseChatRequest(req.body);
+    if ('error' in parsed) {
       return res.status(400).json({
         error: 'Bad Request',
-        message: 'Missing or invalid "message" field',
+        message: parsed.error,
       });
     }
 
-    // Validate complexity if provided
-    let selectedComplexity: ComplexityLevel | undefined = undefined;
-    if (complexity) {
-      const validComplexities: ComplexityLevel[] = ['SIMPLE', 'PROCEDURAL', 'ANALYTICAL'];
-      if (!validComplexities.includes(complexity)) {
-        return res.status(400).json({
-          error: 'Bad Request',
-          message: `Invalid complexity level. Must be one of: ${validComplexities.join(', ')}`,
-        });
-      }
-      selectedComplexity = complexity;
-    }
-
     if (!agent) {
       return res.status(503).json({
         error: 'Service Unavailable',
@@ -142,32 +276,30 @@ app.post('/chat', async (req: Request<{}, {}, ChatRequest>, res: Response<ChatRe
       });
     }
 
-    // Build user context
-    const userContext = userId || drmApiKeys ? { userId, drmApiKeys } : undefined;
-
     // Process the message (auto-detect complexity if not provided)
     const result = await agent.processMessage(
-      message.trim(),
-      conversationId,
-      selectedComplexity,
-      userContext,
-      messages
+      parsed.message,
+      req.body.conversationId,
+      parsed.complexity,
+      parsed.userContext,
+      req.body.messages,
+      undefined,
+      abortOnDisconnect(res).signal,
+      req.body.budget,
+      parsed.tier
     );
 
     // Return response
-    return res.json({
-      response: result.response,
-      conversationId: result.conversationId,
-      model: result.model,
-      usage: result.usage,
-      iterations: result.iterations,
-      toolCallDetails: result.toolCallDetails,
-      reasoningSteps: result.reasoningSteps,
-    });
+    return res.json(toChatResponse(result));
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     const conversationId = req.body.conversationId;
 
+    // 499 (client closed request); only reaches the client when cancelled through the cancel endpoint
+    if (error instanceof RequestCancelledError) {
+      return res.status(499).json(cancelledResponse(conversationId));
+    }
+
     if (logger) {
       logger.error('Error in /chat endpoint', {
         error: errorMessage,
@@ -184,6 +316,312 @@ app.post('/chat', async (req: Request<{}, {}, ChatRequest>, res: Response<ChatRe
   }
 });
 
+/**
+ * Streaming chat endpoint - same request body as /chat, responds with Server-Sent Events
+ *
+ * Events: text_delta, thinking_delta, tool_start, tool_finish, usage (per iteration),
+ * then either done (full ChatResponse) or error (ErrorResponse)
+ */
+app.post('/chat/stream', async (req: Request<{}, {}, ChatRequest>, res: Response) => {
+  // Validate before switching to SSE so clients still get a plain 400/503
+  const parsed = parseChatRequest(req.body);
+  if ('error' in parsed) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: parsed.error,
+    });
+  }
+
+  if (!agent) {
+    return res.status(503).json({
+      error: 'Service Unavailable',
+      message: 'Agent not initialized',
+    });
+  }
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  // Comment heartbeat keeps load balancers from closing the connection during long tool calls
+  const heartbeat = setInterval(() => {
+    if (!res.writableEnded) {
+      res.write(': ping\n\n');
+    }
+  }, 15000);
+
+  try {
+    const result = await agent.processMessage(
+      parsed.message,
+      req.body.conversationId,
+      parsed.complexity,
+      parsed.userContext,
+      req.body.messages,
+      (event) => writeSSE(res, event.type, event),
+      abortOnDisconnect(res).signal,
+      req.body.budget,
+      parsed.tier
+    );
+
+    writeSSE(res, 'done', toChatResponse(result));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const conversationId = req.body.conversationId;
+
+    if (error instanceof RequestCancelledError) {
+      writeSSE(res, 'error', cancelledResponse(conversationId));
+      return undefined;
+    }
+
+    if (logger) {
+      logger.error('Error in /chat/stream endpoint', {
+        error: errorMessage,
+        conversationId,
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    }
+
+    writeSSE(res, 'error', {
+      error: 'Internal Server Error',
+      message: errorMessage,
+      conversationId,
+    });
+  } finally {
+    clearInterval(heartbeat);
+    res.end();
+  }
+
+  return undefined;
+});
+
+/**
+ * Create a handler that approves or rejects the tool calls a conversation is paused on
+ */
+function approvalHandler(approved: boolean) {
+  return async (
+    req: Request<{ conversationId: string }, {}, ApprovalRequest>,
+    res: Response<ChatResponse | ErrorResponse>
+  ) => {
+    const { conversationId } = req.params;
+
+    try {
+      const { approvalId, reason } = req.body || {};
+
+      if (!approvalId || typeof approvalId !== 'string') {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'Missing or invalid "approvalId" field',
+          conversationId,
+        });
+      }
+
+      if (!agent) {
+        return res.status(503).json({
+          error: 'Service Unavailable',
+          message: 'Agent not initialized',
+        });
+      }
+
+      const context = buildUserContext(req.body);
+      if ('error' in context) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: context.error,
+          conversationId,
+        });
+      }
+
+      const result = await agent.resolveApproval(
+        conversationId,
+        approvalId,
+        approved,
+        context.userContext,
+        reason,
+        undefined,
+        abortOnDisconnect(res).signal
+      );
+
+      return res.json(toChatResponse(result));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      if (error instanceof RequestCancelledError) {
+        return res.status(499).json(cancelledResponse(conversationId));
+      }
+
+      if (error instanceof ApprovalError) {
+        return res.status(error.statusCode).json({
+          error: error.statusCode === 404 ? 'Not Found' : 'Conflict',
+          message: errorMessage,
+          conversationId,
+        });
+      }
+
+      if (logger) {
+        logger.error(`Error in /chat/:conversationId/${approved ? 'approve' : 'reject'} endpoint`, {
+          error: errorMessage,
+          conversationId,
+          stack: error instanceof Error ? error.stack : undefined,
+        });
+      }
+
+      return res.status(500).json({
+        error: 'Internal Server Error',
+        message: errorMessage,
+        conversationId,
+      });
+    }
+  };
+}
+
+/**
+ * Approve the pending tool calls of a conversation and resume the agentic loop
+ */
+app.post('/chat/:conversationId/approve', approvalHandler(true));
+
+/**
+ * Reject the pending tool calls of a conversation and resume the agentic loop
+ */
+app.post('/chat/:conversationId/reject', approvalHandler(false));
+
+/**
+ * Cancel the request currently running for a conversation
+ * The cancelled /chat call responds 499; the conversation history stays usable
+ */
+app.post('/chat/:conversationId/cancel', (req: Request<{ conversationId: string }>, res: Response) => {
+  const { conversationId } = req.params;
+
+  if (!agent) {
+    return res.status(503).json({
+      error: 'Service Unavailable',
+      message: 'Agent not initialized',
+    });
+  }
+
+  if (!agent.cancelRequest(conversationId)) {
+    return res.status(404).json({
+      error: 'Not Found',
+      message: `No request in progress for conversation ${conversationId}`,
+      conversationId,
+    });
+  }
+
+  return res.status(202).json({ conversationId, cancelled: true });
+});
+
+/**
+ * Token usage and cost per user and per conversation, as kept by the conversation store
+ * Optional query parameters userId and conversationId narrow the report
+ */
+app.get('/costs', async (req: Request, res: Response<CostSummaryResponse | ErrorResponse>) => {
+  if (!agent) {
+    return res.status(503).json({
+      error: 'Service Unavailable',
+      message: 'Agent not initialized',
+    });
+  }
+
+  const { userId, conversationId } = req.query;
+  try {
+    return res.json(await agent.getCostSummary({
+      userId: typeof userId === 'string' ? userId : undefined,
+      conversationId: typeof conversationId === 'string' ? conversationId : undefined,
+    }));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger?.error('Error in /costs endpoint', { error: errorMessage });
+    return res.status(500).json({ error: 'Internal Server Error', message: errorMessage });
+  }
+});
+
+/**
+ * Run a request against an MCP server and send its result
+ * Responds 404 if the server is not connected and 502 if the server request fails
+ */
+async function forwardToServer<T>(res: Response, serverName: string, fn: () => Promise<T>) {
+  if (!mcpManager) {
+    return res.status(503).json({ error: 'Service Unavailable', message: 'MCP manager not initialized' });
+  }
+
+  if (!mcpManager.getServerStatuses().get(serverName)?.connected) {
+    return res.status(404).json({ error: 'Not Found', message: `MCP server "${serverName}" not connected` });
+  }
+
+  try {
+    return res.json(await fn());
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger?.error('MCP server request failed', { server: serverName, error: errorMessage });
+    return res.status(502).json({ error: 'Bad Gateway', message: errorMessage });
+  }
+}
+
+/**
+ * List the resources provided by connected MCP servers
+ */
+app.get('/resources', (_req: Request, res: Response) => {
+  if (!mcpManager) {
+    return res.status(503).json({ error: 'Service Unavailable', message: 'MCP manager not initialized' });
+  }
+  return res.json({ resources: mcpManager.listResources() });
+});
+
+/**
+ * Read a resource from an MCP server
+ */
+app.post('/resources/read', async (req: Request<{}, {}, ResourceReadRequest>, res: Response) => {
+  const { server: serverName, uri } = req.body || {};
+
+  if (!serverName || typeof serverName !== 'string' || !uri || typeof uri !== 'string') {
+    return res.status(400).json({ error: 'Bad Request', message: 'Missing or invalid "server" or "uri" field' });
+  }
+
+  const context = buildUserContext(req.body);
+  if ('error' in context) {
+    return res.status(400).json({ error: 'Bad Request', message: context.error });
+  }
+
+  return forwardToServer(res, serverName, () => mcpManager!.readResource(serverName, uri, context.userContext));
+});
+
+/**
+ * List the prompt templates provided by connected MCP servers
+ */
+app.get('/prompts', (_req: Request, res: Response) => {
+  if (!mcpManager) {
+    return res.status(503).json({ error: 'Service Unavailable', message: 'MCP manager not initialized' });
+  }
+  return res.json({ prompts: mcpManager.listPrompts() });
+});
+
+/**
+ * Render a prompt template on its MCP server (the client can send the result to /chat)
+ */
+app.post(
+  '/prompts/:server/:name',
+  async (req: Request<{ server: string; name: string }, {}, PromptRenderRequest>, res: Response) => {
+    const { server: serverName, name } = req.params;
+    const promptArgs = req.body?.arguments || {};
+
+    if (typeof promptArgs !== 'object' || Array.isArray(promptArgs)
+      || !Object.values(promptArgs).every(value => typeof value === 'string')) {
+      return res.status(400).json({ error: 'Bad Request', message: 'Invalid "arguments" field. Must be an object of string values' });
+    }
+
+    const context = buildUserContext(req.body || {});
+    if ('error' in context) {
+      return res.status(400).json({ error: 'Bad Request', message: context.error });
+    }
+
+    return forwardToServer(res, serverName, () =>
+      mcpManager!.getPrompt(serverName, name, promptArgs, context.userContext)
+    );
+  }
+);
+
 /**
  * 404 handler
  */
@@ -233,29 +671,65 @@ async function initialize(): Promise<void> {
 
     // Step 2: Initialize MCP client manager
     console.log('[Startup] Step 2: Initializing MCP clients...');
-    mcpManager = new MCPClientManager(logger, config.cacheTTL);
+    mcpManager = new MCPClientManager(logger, config.cacheTTL, {
+      healthCheckIntervalMs: (config.mcpHealthCheckIntervalSeconds ?? 30) * 1000,
+      maxReconnectDelayMs: (config.mcpReconnectMaxDelaySeconds ?? 60) * 1000,
+    });
     await mcpManager.initialize(config.mcpServers);
 
     logger.info('MCP clients initialized', {
       servers: config.mcpServers.map(s => s.name),
     });
 
-    // Step 3: Initialize AI client (Bedrock or Anthropic)
+    // Step 3: Initialize AI clients (one per configured provider, routed by model tier)
     console.log('[Startup] Step 3: Initializing AI client...');
-    let aiClient: AnthropicClient | BedrockClient;
+    const defaultProvider: ModelProvider = config.useBedrock ? 'bedrock' : 'anthropic';
+    const providerClients: Partial<Record<ModelProvider, AIClient>> = {};
 
-    if (config.useBedrock) {
+    if (config.awsRegion) {
       logger.info('Initializing AWS Bedrock client', {
         region: config.awsRegion,
       });
-      aiClient = new BedrockClient(
-        config.awsRegion!,
+      providerClients.bedrock = new BedrockClient(
+        config.awsRegion,
         config.systemMessage,
         logger,
         config.awsAccessKeyId,
-        config.awsSecretAccessKey
+        config.awsSecretAccessKey,
+        undefined,
+        config.interleavedThinking
+      );
+    }
+
+    if (config.anthropicApiKey) {
+      logger.info('Initializing Anthropic client');
+      providerClients.anthropic = new AnthropicClient(
+        config.anthropicApiKey,
+        config.systemMessage,
+        logger,
+        config.cacheTTL,
+        undefined,
+        config.interleavedThinking
       );
+    }
+
+    modelTiers.configure(
+      config.modelTiers || {},
+      defaultProvider,
+      Object.keys(providerClients) as ModelProvider[]
+    );
+    if (config.modelTiersFile) {
+      modelTiers.watch(config.modelTiersFile, logger);
+    }
+    logger.info('Model tiers loaded', {
+      source: config.modelTiersFile || (process.env.MODEL_TIERS ? 'MODEL_TIERS' : 'defaults'),
+      tiers: modelTiers.describe(),
+      hotReload: !!config.modelTiersFile,
+    });
 
+    let aiClient: AIClient = new TieredAIClient(providerClients, defaultProvider);
+
+    if (config.useBedrock) {
       // Initialize Query Analyzer for Bedrock
       queryAnalyzer = new QueryAnalyzer(
         config.awsRegion!,
@@ -266,22 +740,27 @@ async function initialize(): Promise<void> {
       );
       logger.info('QueryAnalyzer initialized for automatic complexity detection (Bedrock)');
     } else {
-      logger.info('Initializing Anthropic client');
-      aiClient = new AnthropicClient(
-        config.anthropicApiKey!,
-        config.systemMessage,
-        logger,
-        config.cacheTTL
-      );
-
       // Initialize Query Analyzer for Anthropic
       queryAnalyzer = new QueryAnalyzer(config.anthropicApiKey!, logger, false);
       logger.info('QueryAnalyzer initialized for automatic complexity detection (Anthropic)');
     }
 
+    if (config.modelFallbacks) {
+      aiClient = createFallbackAIClient(config, aiClient, logger);
+      logger.info('Model fallback chains enabled', {
+        chains: Object.fromEntries(Object.entries(config.modelFallbacks).map(([complexity, targets]) =>
+          [complexity, targets!.map(target => `${target.provider}:${target.model}`)])),
+      });
+    }
+
     // Step 4: Initialize DANI agent
     console.log('[Startup] Step 4: Initializing DANI agent...');
-    agent = new DANIAgent(aiClient, mcpManager, config, logger, queryAnalyzer);
+    const conversationStore = createConversationStore(
+      config.conversationStore,
+      config.conversationTimeoutMinutes,
+      logger
+    );
+    agent = new DANIAgent(aiClient, mcpManager, config, logger, queryAnalyzer, conversationStore);
 
     logger.info('DANI Agent Service initialized successfully', {
       availableTools: mcpManager.getAnthropicTools().length,
@@ -327,7 +806,7 @@ async function shutdown(signal: string): Promise<void> {
 
     // Shutdown agent
     if (agent) {
-      agent.shutdown();
+      await agent.shutdown();
     }
 
     // Close MCP connections
@@ -335,6 +814,9 @@ async function shutdown(signal: string): Promise<void> {
       await mcpManager.close();
     }
 
+    // Stop watching the model tier file
+    modelTiers.close();
+
     console.log('[Shutdown] Graceful shutdown complete');
     if (logger) {
       logger.info('Graceful shutdown complete');
@@ -372,6 +854,15 @@ async function start(): Promise<void> {
       console.log(`[Server] ✓ DANI Agent Service listening on port ${port}`);
       console.log(`[Server]   Endpoints:`);
       console.log(`[Server]     POST http://localhost:${port}/chat`);
+      console.log(`[Server]     POST http://localhost:${port}/chat/stream`);
+      console.log(`[Server]     POST http://localhost:${port}/chat/:conversationId/approve`);
+      console.log(`[Server]     POST http://localhost:${port}/chat/:conversationId/reject`);
+      console.log(`[Server]     POST http://localhost:${port}/chat/:conversationId/cancel`);
+      console.log(`[Server]     GET  http://localhost:${port}/costs`);
+      console.log(`[Server]     GET  http://localhost:${port}/resources`);
+      console.log(`[Server]     POST http://localhost:${port}/resources/read`);
+      console.log(`[Server]     GET  http://localhost:${port}/prompts`);
+      console.log(`[Server]     POST http://localhost:${port}/prompts/:server/:name`);
       console.log(`[Server]     GET  http://localhost:${port}/health`);
 
       if (logger) {
@@ -379,6 +870,15 @@ async function start(): Promise<void> {
           environment: config?.nodeEnv,
           endpoints: [
             `POST http://localhost:${port}/chat`,
+            `POST http://localhost:${port}/chat/stream`,
+            `POST http://localhost:${port}/chat/:conversationId/approve`,
+            `POST http://localhost:${port}/chat/:conversationId/reject`,
+            `POST http://localhost:${port}/chat/:conversationId/cancel`,
+            `GET http://localhost:${port}/costs`,
+            `GET http://localhost:${port}/resources`,
+            `POST http://localhost:${port}/resources/read`,
+            `GET http://localhost:${port}/prompts`,
+            `POST http://localhost:${port}/prompts/:server/:name`,
             `GET http://localhost:${port}/health`,
           ],
         });
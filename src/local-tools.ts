@@ -0,0 +1,281 @@
+/**
+ * Local tool registry
+ * Built-in tools executed in-process alongside MCP tools, so simple but accuracy-critical work
+ * (time conversion, arithmetic, counting) does not depend on the model doing it in its head
+ */
+
+import { AnthropicTool, Conversation, MCPTool } from './types';
+import { evaluateExpression, ARITHMETIC_FUNCTIONS } from './arithmetic';
+import { ToolResultBudget, queryJsonPath, findToolResultContent } from './tool-result-store';
+
+/**
+ * Context a local tool runs in
+ */
+export interface LocalToolContext {
+  conversation?: Conversation;
+}
+
+/**
+ * A tool implemented in-process
+ */
+export interface LocalTool {
+  definition: AnthropicTool;
+  execute(input: Record<string, unknown>, context: LocalToolContext): Promise<LocalToolResult> | LocalToolResult;
+  isAvailable?(context: LocalToolContext): boolean;  // Offered to the model only when this returns true
+}
+
+/**
+ * Result of a local tool call
+ */
+export interface LocalToolResult {
+  content: string;
+  isError: boolean;
+}
+
+/**
+ * Local Tool Registry
+ * Holds the built-in tools and dispatches calls to them
+ */
+export class LocalToolRegistry {
+  private tools: Map<string, LocalTool> = new Map();
+
+  /**
+   * Register a tool (replaces a tool with the same name)
+   */
+  register(tool: LocalTool): void {
+    this.tools.set(tool.definition.name, tool);
+  }
+
+  /**
+   * Check if a tool is a local tool
+   */
+  has(toolName: string): boolean {
+    return this.tools.has(toolName);
+  }
+
+  /**
+   * Look up a tool definition in MCP tool form (for schema validation)
+   */
+  getTool(toolName: string): MCPTool | undefined {
+    const tool = this.tools.get(toolName);
+    if (!tool) {
+      return undefined;
+    }
+    return {
+      name: tool.definition.name,
+      description: tool.definition.description,
+      inputSchema: tool.definition.input_schema,
+    };
+  }
+
+  /**
+   * Get the tools available in a context, in Anthropic tool format
+   */
+  getAnthropicTools(context: LocalToolContext): AnthropicTool[] {
+    return Array.from(this.tools.values())
+      .filter(tool => !tool.isAvailable || tool.isAvailable(context))
+      .map(tool => tool.definition);
+  }
+
+  /**
+   * Execute a local tool; failures are returned as error results
+   */
+  async execute(toolName: string, input: Record<string, unknown>, context: LocalToolContext): Promise<LocalToolResult> {
+    const tool = this.tools.get(toolName);
+    if (!tool) {
+      return { content: `Error: Tool "${toolName}" not found`, isError: true };
+    }
+
+    try {
+      return await tool.execute(input, context);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return { content: `Error executing tool "${toolName}": ${errorMessage}`, isError: true };
+    }
+  }
+}
+
+/**
+ * current_time: the current time, timezone conversion and Unix timestamp conversion (IODA uses Unix seconds)
+ */
+export const currentTimeTool: LocalTool = {
+  definition: {
+    name: 'current_time',
+    description: 'Get the current date and time, or convert between ISO dates and Unix timestamps (seconds). ' +
+      'Use this for relative time ranges (e.g. "last 24 hours" for IODA queries) instead of computing timestamps yourself.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        timezone: { type: 'string', description: 'IANA timezone for the local time (default UTC), e.g. "America/Chicago"' },
+        hours_ago: { type: 'number', description: 'Return the time this many hours before now' },
+        unix_timestamp: { type: 'number', description: 'Convert this Unix timestamp (seconds) instead of using now' },
+        iso_datetime: { type: 'string', description: 'Convert this ISO 8601 date/time instead of using now' },
+      },
+    },
+  },
+  execute(input) {
+    let date = new Date();
+    if (input.unix_timestamp !== undefined) {
+      date = new Date(Number(input.unix_timestamp) * 1000);
+    } else if (input.iso_datetime !== undefined) {
+      date = new Date(String(input.iso_datetime));
+    }
+    if (input.hours_ago !== undefined) {
+      date = new Date(date.getTime() - Number(input.hours_ago) * 3600 * 1000);
+    }
+    if (Number.isNaN(date.getTime())) {
+      return { content: 'Error: Invalid date or timestamp', isError: true };
+    }
+
+    const timezone = input.timezone ? String(input.timezone) : 'UTC';
+    const local = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      dateStyle: 'full',
+      timeStyle: 'long',
+    }).format(date);
+
+    return {
+      content: JSON.stringify({
+        iso: date.toISOString(),
+        unix_timestamp: Math.floor(date.getTime() / 1000),
+        timezone,
+        local,
+      }, null, 2),
+      isError: false,
+    };
+  },
+};
+
+/**
+ * calculate: safe arithmetic for counts and percentages
+ */
+export const calculateTool: LocalTool = {
+  definition: {
+    name: 'calculate',
+    description: 'Evaluate an arithmetic expression exactly. Use this for every percentage, ratio, sum or difference ' +
+      'in your answer. Supports + - * / % ^, parentheses and the functions ' +
+      `${ARITHMETIC_FUNCTIONS.join(', ')} (percent(part, total) = part / total * 100; round(x, 1) rounds to 1 decimal).`,
+    input_schema: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'Expression, e.g. "round(percent(12, 77), 1)"' },
+      },
+      required: ['expression'],
+    },
+  },
+  execute(input) {
+    const expression = String(input.expression);
+    const result = evaluateExpression(expression);
+    return { content: JSON.stringify({ expression, result }), isError: false };
+  },
+};
+
+/**
+ * count_by_field: group the items of a prior tool result by a field and count them
+ */
+export const countByFieldTool: LocalTool = {
+  definition: {
+    name: 'count_by_field',
+    description: 'Count the items of a previous tool result grouped by a field (e.g. devices by connection_status), ' +
+      'with the total and percentages. Use this instead of counting list items yourself.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        result: {
+          type: 'string',
+          description: 'The tool_use id of the earlier tool call, or the handle of a stored result (e.g. "tr_1a2b3c4d")',
+        },
+        field: { type: 'string', description: 'Field to group by; dots for nested fields, e.g. "connection_status"' },
+        path: {
+          type: 'string',
+          description: 'JSON path to the list of items, e.g. "data.list" (default: the first list found in the result)',
+        },
+      },
+      required: ['result', 'field'],
+    },
+  },
+  execute(input, context) {
+    const content = context.conversation
+      ? findToolResultContent(context.conversation, String(input.result))
+      : undefined;
+    if (content === undefined) {
+      return { content: `Error: No tool result "${input.result}" in this conversation`, isError: true };
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      return { content: `Error: Tool result "${input.result}" is not JSON`, isError: true };
+    }
+
+    const items = input.path ? queryJsonPath(data, String(input.path)).flat() : findFirstArray(data);
+    if (!items) {
+      return { content: `Error: No list found in tool result "${input.result}"; pass a path`, isError: true };
+    }
+
+    const fieldPath = String(input.field).split('.');
+    const counts: Record<string, number> = {};
+    for (const item of items) {
+      const value = fieldPath.reduce<unknown>(
+        (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+        item
+      );
+      const key = value === undefined ? '(missing)' : typeof value === 'string' ? value : JSON.stringify(value);
+      counts[key] = (counts[key] || 0) + 1;
+    }
+
+    const total = items.length;
+    const percentages = Object.fromEntries(
+      Object.entries(counts).map(([key, count]) => [key, Math.round((count / total) * 1000) / 10])
+    );
+
+    return {
+      content: JSON.stringify({ field: input.field, total, counts, percentages }, null, 2),
+      isError: false,
+    };
+  },
+};
+
+/**
+ * read_tool_result: page through or query oversized results stored with the conversation
+ * (offered only while the conversation has stored results)
+ */
+export function createReadToolResultTool(resultBudget: ToolResultBudget): LocalTool {
+  return {
+    definition: resultBudget.getToolDefinition(),
+    isAvailable: ({ conversation }) => (conversation?.storedToolResults?.length || 0) > 0,
+    execute: (input, { conversation }) => conversation
+      ? resultBudget.read(conversation, input)
+      : { content: 'Error: No stored tool results', isError: true },
+  };
+}
+
+/**
+ * Create the registry of built-in tools
+ */
+export function createDefaultLocalTools(resultBudget: ToolResultBudget): LocalToolRegistry {
+  const registry = new LocalToolRegistry();
+  registry.register(currentTimeTool);
+  registry.register(calculateTool);
+  registry.register(countByFieldTool);
+  registry.register(createReadToolResultTool(resultBudget));
+  return registry;
+}
+
+/**
+ * Find the first array in a value (the value itself, or breadth-first through object properties)
+ */
+function findFirstArray(value: unknown): unknown[] | undefined {
+  const queue: unknown[] = [value];
+  while (queue.length > 0) {
+    const current = queue.shift();
+    if (Array.isArray(current)) {
+      return current;
+    }
+    if (current !== null && typeof current === 'object') {
+      queue.push(...Object.values(current));
+    }
+  }
+  return undefined;
+}
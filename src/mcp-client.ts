@@ -5,14 +5,34 @@
 
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  ToolListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  PromptListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import {
   MCPTool,
   MCPServerConfig,
   MCPServerStatus,
+  MCPResource,
+  MCPPrompt,
+  RenderedPrompt,
+  ResourceContents,
   AnthropicTool,
   Logger,
   DrmApiKeys,
 } from './types';
+import { matchesAnyPattern } from './tool-patterns';
+import {
+  resolveCredentials,
+  describeCredentials,
+  withCredentialHeaders,
+  toMetaParams,
+  credentialFetch,
+} from './credential-injector';
 
 /**
  * User context for passing credentials to MCP servers
@@ -20,8 +40,59 @@ import {
 export interface UserContext {
   userId?: string;
   drmApiKeys?: DrmApiKeys;
+  credentials?: Record<string, string>;  // Per-service credentials, keyed by service name
+}
+
+/**
+ * Connection health settings for MCP servers
+ */
+export interface MCPHealthOptions {
+  healthCheckIntervalMs?: number;  // Interval between liveness pings (0 disables pinging)
+  pingTimeoutMs?: number;          // How long a ping may take before the server is considered down
+  maxReconnectDelayMs?: number;    // Upper bound for exponential reconnect backoff
 }
 
+/**
+ * tools/call request parameters sent to an MCP server
+ */
+type ToolCallRequest = {
+  name: string;
+  arguments: Record<string, unknown>;
+  _meta?: Record<string, unknown>;
+};
+
+/**
+ * Lists an MCP server can announce changes to
+ */
+type ListKind = 'tools' | 'resources' | 'prompts';
+
+/**
+ * Delay before refreshing after a list_changed notification, so bursts trigger a single refresh
+ */
+const LIST_CHANGED_DEBOUNCE_MS = 500;
+
+/**
+ * Built-in tools that let the model use MCP resources and prompts
+ * (offered only while a connected server provides resources or prompts)
+ */
+const LIST_RESOURCES_TOOL = 'mcp_list_resources';
+const READ_RESOURCE_TOOL = 'mcp_read_resource';
+const GET_PROMPT_TOOL = 'mcp_get_prompt';
+
+/**
+ * Error messages that indicate the transport to a server is broken (not a tool-level failure)
+ */
+const TRANSPORT_ERROR_PATTERNS = [
+  'fetch failed',
+  'econnrefused',
+  'econnreset',
+  'epipe',
+  'socket hang up',
+  'not connected',
+  'connection closed',
+  'session not found',
+];
+
 /**
  * MCP Client Manager
  * Handles connections to multiple MCP servers, tool discovery, and execution
@@ -30,12 +101,33 @@ export class MCPClientManager {
   private clients: Map<string, Client> = new Map();
   private toolToServerMap: Map<string, string> = new Map();
   private serverStatuses: Map<string, MCPServerStatus> = new Map();
+  // Tools each server exposes without loading a category (visible to every conversation)
+  private baseTools: Map<string, Set<string>> = new Map();
+  // Tools enabled by each category, keyed by "server:category"
+  private categoryTools: Map<string, Set<string>> = new Map();
+  // Categories each scope (conversation) has loaded, as "server:category" keys
+  private scopeCategories: Map<string, Set<string>> = new Map();
+  // Serializes category loads and tool list refreshes per server so new tools can be attributed
+  private toolListLocks: Map<string, Promise<unknown>> = new Map();
+  private serverConfigs: Map<string, MCPServerConfig> = new Map();
+  private reconnectTimers: Map<string, NodeJS.Timeout> = new Map();
+  // Debounced refreshes requested by list_changed notifications, and which lists changed
+  private listChangedTimers: Map<string, NodeJS.Timeout> = new Map();
+  private pendingListChanges: Map<string, Set<ListKind>> = new Map();
+  private healthCheckInterval: NodeJS.Timeout | null = null;
+  private closing: boolean = false;
   private logger: Logger;
   private cacheTTL?: '5m' | '1h';
+  private healthCheckIntervalMs: number;
+  private pingTimeoutMs: number;
+  private maxReconnectDelayMs: number;
 
-  constructor(logger: Logger, cacheTTL?: '5m' | '1h') {
+  constructor(logger: Logger, cacheTTL?: '5m' | '1h', healthOptions: MCPHealthOptions = {}) {
     this.logger = logger;
     this.cacheTTL = cacheTTL;
+    this.healthCheckIntervalMs = healthOptions.healthCheckIntervalMs ?? 30000;
+    this.pingTimeoutMs = healthOptions.pingTimeoutMs ?? 10000;
+    this.maxReconnectDelayMs = healthOptions.maxReconnectDelayMs ?? 60000;
   }
 
   /**
@@ -47,9 +139,14 @@ export class MCPClientManager {
       servers: serverConfigs.map(s => s.name),
     });
 
+    serverConfigs.forEach(config => this.serverConfigs.set(config.name, config));
+
     const initPromises = serverConfigs.map(config => this.connectToServer(config));
     await Promise.allSettled(initPromises);
 
+    // Servers that failed have already scheduled a reconnect; keep connected ones under watch
+    this.startHealthChecks();
+
     // Log final status
     const connectedServers = Array.from(this.serverStatuses.values())
       .filter(s => s.connected)
@@ -63,16 +160,19 @@ export class MCPClientManager {
 
   /**
    * Connect to a single MCP server and fetch its tools
+   * On failure the status records the error and a reconnect is scheduled with backoff
    */
   private async connectToServer(config: MCPServerConfig): Promise<void> {
+    const previousStatus = this.serverStatuses.get(config.name);
+    let client: Client | undefined;
+
     try {
-      this.logger.info(`Connecting to MCP server: ${config.name}`, { url: config.url });
+      this.logger.info(`Connecting to MCP server: ${config.name}`, this.describeEndpoint(config));
 
-      // Create HTTP transport using StreamableHTTP
-      const transport = new StreamableHTTPClientTransport(new URL(config.url));
+      const transport = this.createTransport(config);
 
       // Create MCP client
-      const client = new Client(
+      client = new Client(
         {
           name: 'dani-agent',
           version: '1.0.0',
@@ -84,56 +184,377 @@ export class MCPClientManager {
         }
       );
 
+      // Refresh lists the server announces as changed (registered before connecting so none are missed)
+      const notifiedClient = client;
+      const onListChanged = (kind: ListKind) => async () => {
+        if (this.clients.get(config.name) === notifiedClient) {
+          this.scheduleListRefresh(config.name, kind);
+        }
+      };
+      client.setNotificationHandler(ToolListChangedNotificationSchema, onListChanged('tools'));
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, onListChanged('resources'));
+      client.setNotificationHandler(PromptListChangedNotificationSchema, onListChanged('prompts'));
+
       // Connect to the server
-      await client.connect(transport);
+      await client.connect(transport, { timeout: config.connectTimeoutMs });
+
+      // Notice transports that close underneath us (only if this is still the active client)
+      const connectedClient = client;
+      client.onclose = () => {
+        if (this.clients.get(config.name) === connectedClient) {
+          this.handleConnectionLost(config.name, 'Transport closed');
+        }
+      };
 
       // Store the client
       this.clients.set(config.name, client);
 
       // Fetch available tools
-      const toolsResult = await client.listTools();
-      const tools: MCPTool[] = toolsResult.tools.map((tool) => ({
-        name: tool.name,
-        description: tool.description,
-        inputSchema: tool.inputSchema,
-      }));
+      const toolsResult = await client.listTools(undefined, { timeout: config.connectTimeoutMs });
+      const tools = this.mapServerTools(config, toolsResult.tools);
 
       // Map tool names to server
       tools.forEach(tool => {
         this.toolToServerMap.set(tool.name, config.name);
       });
+      this.baseTools.set(config.name, new Set(tools.map(tool => tool.name)));
+
+      const { resources, prompts } = await this.discoverResourcesAndPrompts(client, config);
 
       // Update status
       this.serverStatuses.set(config.name, {
         name: config.name,
+        transport: config.transport || 'streamable-http',
         connected: true,
         tools,
+        resources,
+        prompts,
+        lastConnectedAt: new Date().toISOString(),
+        consecutiveFailures: 0,
+        lastError: previousStatus?.lastError,
       });
 
       this.logger.info(`Connected to MCP server: ${config.name}`, {
         toolCount: tools.length,
         tools: tools.map(t => t.name),
+        resourceCount: resources?.length,
+        promptCount: prompts?.length,
+        reconnected: !!previousStatus,
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
+      const consecutiveFailures = (previousStatus?.consecutiveFailures || 0) + 1;
       this.logger.error(`Failed to connect to MCP server: ${config.name}`, {
         error: errorMessage,
-        url: config.url,
+        ...this.describeEndpoint(config),
+        consecutiveFailures,
       });
 
+      // Drop a half-initialized client (connected but tool discovery failed)
+      if (client && this.clients.get(config.name) === client) {
+        this.clients.delete(config.name);
+      }
+      client?.close().catch(() => undefined);
+
       // Update status with error
       this.serverStatuses.set(config.name, {
         name: config.name,
+        transport: config.transport || 'streamable-http',
         connected: false,
         tools: [],
         error: errorMessage,
+        lastConnectedAt: previousStatus?.lastConnectedAt,
+        consecutiveFailures,
+        lastError: errorMessage,
+      });
+
+      this.scheduleReconnect(config.name);
+    }
+  }
+
+  /**
+   * Fetch the resources and prompts of a server that advertises them
+   * Failures are logged but do not fail the connection (tools still work)
+   */
+  private async discoverResourcesAndPrompts(
+    client: Client,
+    config: MCPServerConfig
+  ): Promise<{ resources?: MCPResource[]; prompts?: MCPPrompt[] }> {
+    const capabilities = client.getServerCapabilities();
+    const options = { timeout: config.connectTimeoutMs };
+    const discovered: { resources?: MCPResource[]; prompts?: MCPPrompt[] } = {};
+
+    try {
+      if (capabilities?.resources) {
+        const result = await client.listResources(undefined, options);
+        discovered.resources = result.resources.map(resource => ({
+          server: config.name,
+          uri: resource.uri,
+          name: resource.name,
+          description: resource.description,
+          mimeType: resource.mimeType,
+        }));
+      }
+
+      if (capabilities?.prompts) {
+        const result = await client.listPrompts(undefined, options);
+        discovered.prompts = result.prompts.map(prompt => ({
+          server: config.name,
+          name: prompt.name,
+          description: prompt.description,
+          arguments: prompt.arguments,
+        }));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to list resources/prompts for MCP server: ${config.name}`, {
+        error: errorMessage,
       });
     }
+
+    return discovered;
+  }
+
+  /**
+   * Create the transport for a server
+   * stdio servers are spawned as child processes (closing the client stops the process)
+   */
+  private createTransport(config: MCPServerConfig): Transport {
+    switch (config.transport) {
+      case 'stdio': {
+        const transport = new StdioClientTransport({
+          command: config.command!,
+          args: config.args,
+          env: config.env,
+          cwd: config.cwd,
+          stderr: 'pipe',
+        });
+
+        // Forward the server's stderr to our logs instead of the service's own stderr
+        transport.stderr?.on('data', (chunk: Buffer) => {
+          const output = chunk.toString().trim();
+          if (output) {
+            this.logger.debug(`MCP server ${config.name} stderr`, { output });
+          }
+        });
+        return transport;
+      }
+
+      case 'sse':
+        return new SSEClientTransport(new URL(config.url!), {
+          requestInit: config.headers ? { headers: config.headers } : undefined,
+          fetch: credentialFetch,
+        });
+
+      default:
+        return new StreamableHTTPClientTransport(new URL(config.url!), {
+          requestInit: config.headers ? { headers: config.headers } : undefined,
+          fetch: credentialFetch,
+        });
+    }
+  }
+
+  /**
+   * Describe where a server is reached, for logging
+   */
+  private describeEndpoint(config: MCPServerConfig): Record<string, unknown> {
+    return config.transport === 'stdio'
+      ? { transport: 'stdio', command: config.command, args: config.args }
+      : { transport: config.transport || 'streamable-http', url: config.url };
+  }
+
+  /**
+   * Convert a server's tool list into MCPTools, applying the configured
+   * allow/deny patterns (matched against the server's own tool names) and name prefix
+   */
+  private mapServerTools(
+    config: MCPServerConfig,
+    remoteTools: Awaited<ReturnType<Client['listTools']>>['tools']
+  ): MCPTool[] {
+    return remoteTools
+      .filter(tool => !config.allowTools || matchesAnyPattern(tool.name, config.allowTools))
+      .filter(tool => !config.denyTools || !matchesAnyPattern(tool.name, config.denyTools))
+      .map((tool) => ({
+        name: config.toolPrefix ? `${config.toolPrefix}${tool.name}` : tool.name,
+        remoteName: config.toolPrefix ? tool.name : undefined,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        annotations: tool.annotations,
+      }));
+  }
+
+  /**
+   * Schedule a reconnect attempt with exponential backoff (1s, 2s, 4s, ... up to the max delay)
+   */
+  private scheduleReconnect(serverName: string): void {
+    const config = this.serverConfigs.get(serverName);
+    if (this.closing || !config || this.reconnectTimers.has(serverName)) {
+      return;
+    }
+
+    const failures = this.serverStatuses.get(serverName)?.consecutiveFailures || 0;
+    const delayMs = Math.min(1000 * Math.pow(2, Math.max(failures - 1, 0)), this.maxReconnectDelayMs);
+
+    this.logger.info(`Scheduling reconnect to MCP server: ${serverName}`, {
+      delayMs,
+      consecutiveFailures: failures,
+    });
+
+    const timer = setTimeout(() => {
+      this.reconnectTimers.delete(serverName);
+      if (!this.closing) {
+        this.connectToServer(config).catch(() => undefined);
+      }
+    }, delayMs);
+    timer.unref();
+
+    this.reconnectTimers.set(serverName, timer);
+  }
+
+  /**
+   * Mark a connected server as down, discard its client and start reconnecting
+   */
+  private handleConnectionLost(serverName: string, errorMessage: string): void {
+    const status = this.serverStatuses.get(serverName);
+    if (!status || !status.connected || this.closing) {
+      return;
+    }
+
+    this.logger.warn(`Lost connection to MCP server: ${serverName}`, { error: errorMessage });
+
+    status.connected = false;
+    status.error = errorMessage;
+    status.lastError = errorMessage;
+    status.consecutiveFailures = (status.consecutiveFailures || 0) + 1;
+
+    const client = this.clients.get(serverName);
+    this.clients.delete(serverName);
+    client?.close().catch(() => undefined);
+
+    this.scheduleReconnect(serverName);
+  }
+
+  /**
+   * Start periodic liveness pings for connected servers
+   */
+  private startHealthChecks(): void {
+    if (this.healthCheckIntervalMs <= 0 || this.healthCheckInterval) {
+      return;
+    }
+
+    this.healthCheckInterval = setInterval(() => {
+      this.probeServers().catch(() => undefined);
+    }, this.healthCheckIntervalMs);
+    this.healthCheckInterval.unref();
+
+    this.logger.info('Started MCP health checks', {
+      intervalMs: this.healthCheckIntervalMs,
+    });
+  }
+
+  /**
+   * Ping every connected server; servers that fail are marked down and reconnected
+   */
+  private async probeServers(): Promise<void> {
+    const probes = Array.from(this.clients.entries()).map(async ([name, client]) => {
+      try {
+        await client.ping({ timeout: this.pingTimeoutMs });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.handleConnectionLost(name, `Health check failed: ${errorMessage}`);
+      }
+    });
+
+    await Promise.allSettled(probes);
+  }
+
+  /**
+   * Check if an error means the transport is broken rather than the tool failing
+   */
+  private isTransportError(error: unknown): boolean {
+    const code = (error as any)?.code;
+    if (code === -32000) {
+      // MCP ErrorCode.ConnectionClosed
+      return true;
+    }
+
+    const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+    return TRANSPORT_ERROR_PATTERNS.some(pattern => message.includes(pattern));
+  }
+
+  /**
+   * Debounce a refresh after a server announced that one of its lists changed
+   */
+  private scheduleListRefresh(serverName: string, kind: ListKind): void {
+    const kinds = this.pendingListChanges.get(serverName) || new Set<ListKind>();
+    kinds.add(kind);
+    this.pendingListChanges.set(serverName, kinds);
+
+    if (this.listChangedTimers.has(serverName)) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.listChangedTimers.delete(serverName);
+      this.refreshChangedLists(serverName).catch(() => undefined);
+    }, LIST_CHANGED_DEBOUNCE_MS);
+    timer.unref();
+
+    this.listChangedTimers.set(serverName, timer);
+  }
+
+  /**
+   * Re-fetch the lists a server announced as changed
+   * Tools that appear outside a category load are visible to every conversation
+   */
+  private async refreshChangedLists(serverName: string): Promise<void> {
+    const kinds = this.pendingListChanges.get(serverName);
+    this.pendingListChanges.delete(serverName);
+
+    const client = this.clients.get(serverName);
+    const status = this.serverStatuses.get(serverName);
+    const config = this.serverConfigs.get(serverName);
+    if (!kinds || !client || !status?.connected || !config || this.closing) {
+      return;
+    }
+
+    this.logger.info(`MCP server ${serverName} reported changed lists`, { lists: Array.from(kinds) });
+
+    if (kinds.has('tools')) {
+      await this.withToolListLock(serverName, async () => {
+        const toolNames = () => new Set((this.serverStatuses.get(serverName)?.tools || []).map(tool => tool.name));
+        const toolsBefore = toolNames();
+        await this.refreshServerTools(serverName);
+
+        const currentTools = toolNames();
+        const baseToolNames = this.baseTools.get(serverName) || new Set<string>();
+        currentTools.forEach(name => {
+          if (!toolsBefore.has(name)) {
+            baseToolNames.add(name);
+          }
+        });
+        Array.from(baseToolNames)
+          .filter(name => !currentTools.has(name))
+          .forEach(name => baseToolNames.delete(name));
+        this.baseTools.set(serverName, baseToolNames);
+      });
+    }
+
+    if (kinds.has('resources') || kinds.has('prompts')) {
+      const { resources, prompts } = await this.discoverResourcesAndPrompts(client, config);
+      if (kinds.has('resources')) {
+        status.resources = resources;
+      }
+      if (kinds.has('prompts')) {
+        status.prompts = prompts;
+      }
+    }
   }
 
   /**
    * Refresh the tool list for a specific MCP server after dynamic tool loading
-   * This should be called after tools are dynamically enabled (e.g., via load_tool_category)
+   * Called after tools are dynamically enabled (e.g., via load_tool_category)
+   * and when the server sends notifications/tools/list_changed
    * @param serverName - Name of the MCP server to refresh (e.g., 'drm')
    */
   async refreshServerTools(serverName: string): Promise<void> {
@@ -154,12 +575,9 @@ export class MCPClientManager {
       this.logger.info(`Refreshing tool list for MCP server: ${serverName}`);
 
       // Fetch fresh tool list from server
-      const toolsResult = await client.listTools();
-      const tools: MCPTool[] = toolsResult.tools.map((tool) => ({
-        name: tool.name,
-        description: tool.description,
-        inputSchema: tool.inputSchema,
-      }));
+      const config = this.serverConfigs.get(serverName) || { name: serverName };
+      const toolsResult = await client.listTools(undefined, { timeout: config.connectTimeoutMs });
+      const tools = this.mapServerTools(config, toolsResult.tools);
 
       // Clear old tool-to-server mappings for this server
       status.tools.forEach(tool => {
@@ -187,17 +605,88 @@ export class MCPClientManager {
     }
   }
 
+  /**
+   * Look up a tool definition by name
+   */
+  getTool(toolName: string): MCPTool | undefined {
+    const serverName = this.toolToServerMap.get(toolName);
+    if (!serverName) {
+      return undefined;
+    }
+    return this.serverStatuses.get(serverName)?.tools.find(tool => tool.name === toolName);
+  }
+
+  /**
+   * Get the name of the server that provides a tool
+   */
+  getToolServer(toolName: string): string | undefined {
+    return this.toolToServerMap.get(toolName);
+  }
+
+  /**
+   * Check whether a tool is visible to a scope
+   * Base tools are visible everywhere; category tools only where the category was loaded
+   * Without a scope, every tool is visible
+   */
+  private isToolVisible(toolName: string, serverName: string, scope?: string): boolean {
+    if (scope === undefined || this.baseTools.get(serverName)?.has(toolName)) {
+      return true;
+    }
+
+    const categories = this.scopeCategories.get(scope);
+    if (!categories) {
+      return false;
+    }
+
+    for (const categoryKey of categories) {
+      if (this.categoryTools.get(categoryKey)?.has(toolName)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Get the tool categories a scope has loaded (as "server:category" keys)
+   */
+  getScopeCategories(scope: string): string[] {
+    return Array.from(this.scopeCategories.get(scope) || []);
+  }
+
+  /**
+   * Restore the tool categories a scope had loaded (e.g. a conversation resumed from the store)
+   * Categories this process has never seen loaded contribute no tools until loaded again
+   */
+  restoreScopeCategories(scope: string, categoryKeys: string[]): void {
+    if (categoryKeys.length === 0) {
+      return;
+    }
+    const categories = this.scopeCategories.get(scope) || new Set<string>();
+    categoryKeys.forEach(key => categories.add(key));
+    this.scopeCategories.set(scope, categories);
+  }
+
+  /**
+   * Forget the tool categories of a scope (e.g. when its conversation expires)
+   */
+  releaseScope(scope: string): void {
+    this.scopeCategories.delete(scope);
+  }
+
   /**
    * Get all available tools from all connected MCP servers
    * in Anthropic tool format
+   * @param scope - Conversation scope; only base tools and categories it loaded are included
    */
-  getAnthropicTools(): AnthropicTool[] {
+  getAnthropicTools(scope?: string): AnthropicTool[] {
     const tools: AnthropicTool[] = [];
 
     for (const status of this.serverStatuses.values()) {
       if (!status.connected) continue;
 
       for (const mcpTool of status.tools) {
+        if (!this.isToolVisible(mcpTool.name, status.name, scope)) continue;
+
         tools.push({
           name: mcpTool.name,
           description: mcpTool.description || `Tool: ${mcpTool.name}`,
@@ -210,6 +699,8 @@ export class MCPClientManager {
       }
     }
 
+    tools.push(...this.getResourceTools());
+
     // Add cache control to the last tool for prompt caching
     if (tools.length > 0) {
       const cacheControl: any = { type: 'ephemeral' };
@@ -222,17 +713,221 @@ export class MCPClientManager {
     return tools;
   }
 
+  /**
+   * Built-in tools for the resources and prompts of connected servers
+   */
+  private getResourceTools(): AnthropicTool[] {
+    const tools: AnthropicTool[] = [];
+    const resources = this.listResources();
+    const prompts = this.listPrompts();
+
+    if (resources.length > 0) {
+      tools.push({
+        name: LIST_RESOURCES_TOOL,
+        description: 'List the resources (documents, inventories, runbooks) that connected MCP servers provide. Returns server, uri, name and description for each resource.',
+        input_schema: { type: 'object', properties: {} },
+      });
+      tools.push({
+        name: READ_RESOURCE_TOOL,
+        description: `Read the contents of an MCP resource. Use ${LIST_RESOURCES_TOOL} to find the server and uri.`,
+        input_schema: {
+          type: 'object',
+          properties: {
+            server: { type: 'string', description: 'Name of the MCP server providing the resource' },
+            uri: { type: 'string', description: 'Resource URI' },
+          },
+          required: ['server', 'uri'],
+        },
+      });
+    }
+
+    if (prompts.length > 0) {
+      const available = prompts.map(prompt => {
+        const args = (prompt.arguments || []).map(arg => `${arg.name}${arg.required ? '*' : ''}`);
+        return `- ${prompt.server}/${prompt.name}(${args.join(', ')})${prompt.description ? `: ${prompt.description}` : ''}`;
+      });
+      tools.push({
+        name: GET_PROMPT_TOOL,
+        description: `Get a server-provided workflow prompt (step-by-step instructions) and follow it. Arguments marked * are required.\nAvailable prompts:\n${available.join('\n')}`,
+        input_schema: {
+          type: 'object',
+          properties: {
+            server: { type: 'string', description: 'Name of the MCP server providing the prompt' },
+            name: { type: 'string', description: 'Prompt name' },
+            arguments: { type: 'object', description: 'Prompt arguments as string values' },
+          },
+          required: ['server', 'name'],
+        },
+      });
+    }
+
+    return tools;
+  }
+
+  /**
+   * Execute one of the built-in resource/prompt tools
+   */
+  private async executeResourceTool(
+    toolName: string,
+    args: Record<string, unknown>,
+    userContext?: UserContext
+  ): Promise<{ content: string; isError: boolean; server?: string }> {
+    try {
+      if (toolName === LIST_RESOURCES_TOOL) {
+        return { content: JSON.stringify(this.listResources(), null, 2), isError: false };
+      }
+
+      if (toolName === READ_RESOURCE_TOOL) {
+        const resource = await this.readResource(String(args.server), String(args.uri), userContext);
+        return { content: resource.text, isError: false, server: resource.server };
+      }
+
+      const promptArgs = Object.fromEntries(
+        Object.entries((args.arguments as Record<string, unknown>) || {}).map(([key, value]) => [key, String(value)])
+      );
+      const prompt = await this.getPrompt(String(args.server), String(args.name), promptArgs, userContext);
+      return {
+        content: prompt.messages.map(message => `${message.role}: ${message.text}`).join('\n\n'),
+        isError: false,
+        server: prompt.server,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Tool execution failed: ${toolName}`, { error: errorMessage });
+      return {
+        content: `Error executing tool "${toolName}": ${errorMessage}`,
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * List the resources of all connected servers
+   */
+  listResources(): MCPResource[] {
+    return Array.from(this.serverStatuses.values())
+      .filter(status => status.connected)
+      .flatMap(status => status.resources || []);
+  }
+
+  /**
+   * List the prompts of all connected servers
+   */
+  listPrompts(): MCPPrompt[] {
+    return Array.from(this.serverStatuses.values())
+      .filter(status => status.connected)
+      .flatMap(status => status.prompts || []);
+  }
+
+  /**
+   * Read a resource from a server
+   * Binary contents are described rather than returned
+   */
+  async readResource(serverName: string, uri: string, userContext?: UserContext): Promise<ResourceContents> {
+    const client = this.getConnectedClient(serverName);
+    const config = this.serverConfigs.get(serverName);
+    const credentials = resolveCredentials(config?.credentials, userContext);
+
+    const result = await withCredentialHeaders(credentials?.headers || {}, () =>
+      client.readResource(
+        { uri, ...toMetaParams(credentials) },
+        { timeout: config?.timeoutMs }
+      )
+    );
+
+    const text = result.contents
+      .map(content => 'text' in content && typeof content.text === 'string'
+        ? content.text
+        : `[binary content (${content.mimeType || 'unknown type'}), ${Math.ceil(String(content.blob).length * 3 / 4)} bytes]`)
+      .join('\n');
+
+    this.logger.info(`Read MCP resource: ${uri}`, { server: serverName, length: text.length });
+
+    return {
+      server: serverName,
+      uri,
+      mimeType: result.contents[0]?.mimeType,
+      text,
+    };
+  }
+
+  /**
+   * Render a prompt on its server, flattening the message contents to text
+   */
+  async getPrompt(
+    serverName: string,
+    name: string,
+    args: Record<string, string> = {},
+    userContext?: UserContext
+  ): Promise<RenderedPrompt> {
+    const client = this.getConnectedClient(serverName);
+    const config = this.serverConfigs.get(serverName);
+    const credentials = resolveCredentials(config?.credentials, userContext);
+
+    const result = await withCredentialHeaders(credentials?.headers || {}, () =>
+      client.getPrompt(
+        {
+          name,
+          arguments: args,
+          ...toMetaParams(credentials),
+        },
+        { timeout: config?.timeoutMs }
+      )
+    );
+
+    const messages = result.messages.map(message => {
+      const content: any = message.content;
+      let text: string;
+      if (content.type === 'text') {
+        text = content.text;
+      } else if (content.type === 'resource') {
+        text = content.resource?.text ?? `[resource ${content.resource?.uri}]`;
+      } else {
+        text = `[${content.type} content]`;
+      }
+      return { role: message.role, text };
+    });
+
+    this.logger.info(`Rendered MCP prompt: ${name}`, { server: serverName, messageCount: messages.length });
+
+    return {
+      server: serverName,
+      name,
+      description: result.description,
+      messages,
+    };
+  }
+
+  /**
+   * Get the client of a connected server, or throw
+   */
+  private getConnectedClient(serverName: string): Client {
+    const client = this.clients.get(serverName);
+    if (!client || !this.serverStatuses.get(serverName)?.connected) {
+      throw new Error(`MCP server "${serverName}" not connected`);
+    }
+    return client;
+  }
+
   /**
    * Execute a tool call on the appropriate MCP server
    * @param toolName - Name of the tool to execute
    * @param args - Tool arguments
    * @param userContext - Optional user context for passing credentials to MCP servers
+   * @param scope - Conversation scope; tools from categories it has not loaded are rejected
+   * @param signal - Aborting it cancels the call (the server is sent notifications/cancelled)
    */
   async executeTool(
     toolName: string,
     args: Record<string, unknown>,
-    userContext?: UserContext
+    userContext?: UserContext,
+    scope?: string,
+    signal?: AbortSignal
   ): Promise<{ content: string; isError: boolean; server?: string }> {
+    if (toolName === LIST_RESOURCES_TOOL || toolName === READ_RESOURCE_TOOL || toolName === GET_PROMPT_TOOL) {
+      return this.executeResourceTool(toolName, args, userContext);
+    }
+
     const serverName = this.toolToServerMap.get(toolName);
 
     if (!serverName) {
@@ -243,6 +938,14 @@ export class MCPClientManager {
       };
     }
 
+    if (!this.isToolVisible(toolName, serverName, scope)) {
+      this.logger.warn(`Tool not loaded in scope: ${toolName}`, { server: serverName, scope });
+      return {
+        content: `Error: Tool "${toolName}" is not loaded in this conversation. Load its category with load_tool_category first.`,
+        isError: true,
+      };
+    }
+
     const client = this.clients.get(serverName);
     if (!client) {
       this.logger.error(`MCP client not found for server: ${serverName}`);
@@ -258,24 +961,34 @@ export class MCPClientManager {
         arguments: args,
         userId: userContext?.userId,
         hasDrmKeys: !!userContext?.drmApiKeys,
+        credentialNames: Object.keys(userContext?.credentials || {}),
       });
 
-      // For DRM server, include user credentials in tool arguments
-      // The drm-mcp server will extract these and use them for authentication
-      const toolArgs: Record<string, unknown> = { ...args };
-
-      if (serverName === 'drm' && userContext?.drmApiKeys) {
-        // Add credentials as special arguments that drm-mcp will recognize
-        toolArgs._dani_user_id = userContext.userId || 'unknown';
-        toolArgs._dani_drm_api_key_id = userContext.drmApiKeys.apiKeyId;
-        toolArgs._dani_drm_api_key_secret = userContext.drmApiKeys.apiKeySecret;
-        this.logger.info(`Including DRM credentials in tool args for user ${userContext.userId}`);
+      // Deliver the credentials the server declares it needs (arguments, headers or _meta)
+      // Only argument/credential names are logged, never values
+      const config = this.serverConfigs.get(serverName);
+      const credentials = resolveCredentials(config?.credentials, userContext);
+      if (credentials) {
+        this.logger.info(`Including credentials in tool call for user ${userContext?.userId}`, {
+          server: serverName,
+          ...describeCredentials(credentials),
+        });
       }
 
-      const result = await client.callTool({
-        name: toolName,
-        arguments: toolArgs,
-      });
+      const request: ToolCallRequest = {
+        name: this.getTool(toolName)?.remoteName || toolName,
+        arguments: { ...args, ...credentials?.arguments },
+        ...toMetaParams(credentials),
+      };
+
+      // Category loads are serialized per server so the tools they add can be attributed
+      const result = await withCredentialHeaders(credentials?.headers || {}, () =>
+        request.name === 'load_tool_category'
+          ? this.withToolListLock(serverName, () =>
+              this.loadToolCategory(client, serverName, request, scope)
+            )
+          : client.callTool(request, undefined, { timeout: config?.timeoutMs, signal })
+      );
 
       // Extract content from result
       const resultContent: any = result.content;
@@ -295,32 +1008,31 @@ export class MCPClientManager {
         isError: result.isError === true,
       });
 
-      // AUTO-REFRESH: If this was a category loading tool, refresh the tool list
-      // so newly enabled tools become immediately available
-      if (toolName === 'load_tool_category' && result.isError !== true) {
-        this.logger.info(`Tool category loaded, refreshing tools for ${serverName}...`);
-        try {
-          await this.refreshServerTools(serverName);
-          this.logger.info(`Tool list refreshed after category load`);
-        } catch (error) {
-          // Log error but don't fail the tool call - the category was loaded successfully
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          this.logger.error(`Failed to refresh tools after category load: ${errorMessage}`);
-        }
-      }
-
       return {
         content,
         isError: result.isError === true,
         server: serverName,
       };
     } catch (error) {
+      if (signal?.aborted) {
+        this.logger.info(`Tool execution cancelled: ${toolName}`, { server: serverName });
+        return {
+          content: `Tool "${toolName}" was cancelled before it completed`,
+          isError: true,
+          server: serverName,
+        };
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.logger.error(`Tool execution failed: ${toolName}`, {
         server: serverName,
         error: errorMessage,
       });
 
+      if (this.isTransportError(error)) {
+        this.handleConnectionLost(serverName, errorMessage);
+      }
+
       return {
         content: `Error executing tool "${toolName}": ${errorMessage}`,
         isError: true,
@@ -328,6 +1040,74 @@ export class MCPClientManager {
     }
   }
 
+  /**
+   * Call load_tool_category, then refresh the server's tools and record which tools
+   * the category added and that the scope has loaded it
+   */
+  private async loadToolCategory(
+    client: Client,
+    serverName: string,
+    request: ToolCallRequest,
+    scope?: string
+  ): Promise<Awaited<ReturnType<Client['callTool']>>> {
+    const toolsBefore = new Set((this.serverStatuses.get(serverName)?.tools || []).map(tool => tool.name));
+
+    const result = await client.callTool(request, undefined, {
+      timeout: this.serverConfigs.get(serverName)?.timeoutMs,
+    });
+
+    if (result.isError === true) {
+      return result;
+    }
+
+    const category = String(request.arguments.category_name ?? request.arguments.category ?? 'unknown');
+    const categoryKey = `${serverName}:${category}`;
+
+    // Refresh the tool list so newly enabled tools become available
+    this.logger.info(`Tool category loaded, refreshing tools for ${serverName}...`, { category, scope });
+    try {
+      await this.refreshServerTools(serverName);
+    } catch (error) {
+      // Log error but don't fail the tool call - the category was loaded successfully
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to refresh tools after category load: ${errorMessage}`);
+      return result;
+    }
+
+    // Tools that appeared belong to this category; if it was already loaded by another
+    // conversation nothing new appears and the previously recorded tools are reused
+    const categoryToolNames = this.categoryTools.get(categoryKey) || new Set<string>();
+    for (const tool of this.serverStatuses.get(serverName)?.tools || []) {
+      if (!toolsBefore.has(tool.name)) {
+        categoryToolNames.add(tool.name);
+      }
+    }
+    this.categoryTools.set(categoryKey, categoryToolNames);
+
+    if (scope !== undefined) {
+      this.restoreScopeCategories(scope, [categoryKey]);
+    }
+
+    this.logger.info('Tool category enabled for scope', {
+      server: serverName,
+      category,
+      scope,
+      tools: Array.from(categoryToolNames),
+    });
+
+    return result;
+  }
+
+  /**
+   * Run a category load or tool list refresh while holding the server's tool list lock
+   */
+  private async withToolListLock<T>(serverName: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.toolListLocks.get(serverName) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(fn);
+    this.toolListLocks.set(serverName, run);
+    return run;
+  }
+
   /**
    * Get the status of all MCP servers
    */
@@ -341,6 +1121,16 @@ export class MCPClientManager {
   async close(): Promise<void> {
     this.logger.info('Closing all MCP client connections');
 
+    this.closing = true;
+    if (this.healthCheckInterval) {
+      clearInterval(this.healthCheckInterval);
+      this.healthCheckInterval = null;
+    }
+    this.reconnectTimers.forEach(timer => clearTimeout(timer));
+    this.reconnectTimers.clear();
+    this.listChangedTimers.forEach(timer => clearTimeout(timer));
+    this.listChangedTimers.clear();
+
     const closePromises = Array.from(this.clients.entries()).map(async ([name, client]) => {
       try {
         await client.close();
@@ -0,0 +1,318 @@
+/**
+ * MCP server registry
+ * Loads the declarative MCP server list from a JSON/YAML file or the MCP_SERVERS environment variable
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { MCPServerConfig, MCPCredentialRule, CredentialSource, MCPTransportType } from './types';
+import { CREDENTIAL_SOURCES, isCredentialSource } from './credential-injector';
+
+const TRANSPORTS: MCPTransportType[] = ['streamable-http', 'sse', 'stdio'];
+const CREDENTIAL_DELIVERIES = ['argument', 'header', 'meta'] as const;
+const SERVER_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Credential rules used by the legacy DRM_MCP_URL configuration
+ * (the drm-mcp server reads user credentials from these hidden arguments)
+ */
+export const LEGACY_DRM_CREDENTIALS: MCPCredentialRule[] = [
+  { source: 'userId', argument: '_dani_user_id', default: 'unknown' },
+  { source: 'drmApiKeys.apiKeyId', argument: '_dani_drm_api_key_id' },
+  { source: 'drmApiKeys.apiKeySecret', argument: '_dani_drm_api_key_secret' },
+];
+
+/**
+ * Replace ${VAR} references with environment variable values (so secrets stay out of the file)
+ */
+function interpolateEnv(value: string, path: string): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name: string) => {
+    const envValue = process.env[name];
+    if (envValue === undefined) {
+      throw new Error(`MCP server config error at ${path}: environment variable ${name} is not set`);
+    }
+    return envValue;
+  });
+}
+
+/**
+ * Collects validation errors with the path of the offending field
+ */
+class ConfigValidator {
+  readonly errors: string[] = [];
+
+  fail(path: string, message: string): void {
+    this.errors.push(`${path}: ${message}`);
+  }
+
+  string(entry: Record<string, unknown>, key: string, path: string, required: boolean = false): string | undefined {
+    const value = entry[key];
+    if (value === undefined) {
+      if (required) {
+        this.fail(`${path}.${key}`, 'is required');
+      }
+      return undefined;
+    }
+    if (typeof value !== 'string' || value.length === 0) {
+      this.fail(`${path}.${key}`, 'must be a non-empty string');
+      return undefined;
+    }
+    return interpolateEnv(value, `${path}.${key}`);
+  }
+
+  positiveInt(entry: Record<string, unknown>, key: string, path: string): number | undefined {
+    const value = entry[key];
+    if (value === undefined) {
+      return undefined;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+      this.fail(`${path}.${key}`, 'must be a positive integer (milliseconds)');
+      return undefined;
+    }
+    return value;
+  }
+
+  stringList(entry: Record<string, unknown>, key: string, path: string): string[] | undefined {
+    const value = entry[key];
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || item.length === 0)) {
+      this.fail(`${path}.${key}`, 'must be a list of non-empty strings');
+      return undefined;
+    }
+    return value as string[];
+  }
+
+  stringMap(entry: Record<string, unknown>, key: string, path: string): Record<string, string> | undefined {
+    const value = entry[key];
+    if (value === undefined) {
+      return undefined;
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.fail(`${path}.${key}`, 'must be an object of string values');
+      return undefined;
+    }
+
+    const result: Record<string, string> = {};
+    for (const [name, headerValue] of Object.entries(value)) {
+      if (typeof headerValue !== 'string') {
+        this.fail(`${path}.${key}.${name}`, 'must be a string');
+        continue;
+      }
+      result[name] = interpolateEnv(headerValue, `${path}.${key}.${name}`);
+    }
+    return result;
+  }
+}
+
+/**
+ * Validate credential injection rules for one server
+ */
+function validateCredentials(
+  validator: ConfigValidator,
+  entry: Record<string, unknown>,
+  path: string
+): MCPCredentialRule[] | undefined {
+  const value = entry.credentials;
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    validator.fail(`${path}.credentials`, 'must be a list of credential rules');
+    return undefined;
+  }
+
+  return value.flatMap((rule, index): MCPCredentialRule[] => {
+    const rulePath = `${path}.credentials[${index}]`;
+    if (typeof rule !== 'object' || rule === null) {
+      validator.fail(rulePath, 'must be an object');
+      return [];
+    }
+
+    const source = validator.string(rule, 'source', rulePath, true);
+    const defaultValue = validator.string(rule, 'default', rulePath);
+
+    if (source && !isCredentialSource(source)) {
+      validator.fail(`${rulePath}.source`, `must be one of: ${CREDENTIAL_SOURCES.join(', ')}, credentials.<name>`);
+      return [];
+    }
+
+    // Exactly one delivery channel
+    const deliveries = CREDENTIAL_DELIVERIES.filter(key => rule[key] !== undefined);
+    if (deliveries.length !== 1) {
+      validator.fail(rulePath, `must set exactly one of: ${CREDENTIAL_DELIVERIES.join(', ')}`);
+      return [];
+    }
+    const delivery = deliveries[0];
+    const target = validator.string(rule, delivery, rulePath, true);
+
+    if (!source || !target) {
+      return [];
+    }
+
+    return [{
+      source: source as CredentialSource,
+      [delivery]: target,
+      ...(defaultValue !== undefined && { default: defaultValue }),
+    }];
+  });
+}
+
+/**
+ * Validate a raw server list (parsed JSON/YAML) and return typed configs
+ * Throws a single error listing every problem found
+ */
+export function validateMCPServerConfigs(raw: unknown, sourceName: string): MCPServerConfig[] {
+  const list = Array.isArray(raw)
+    ? raw
+    : (raw && typeof raw === 'object' && Array.isArray((raw as any).servers) ? (raw as any).servers : undefined);
+
+  if (!list) {
+    throw new Error(`Invalid MCP server config in ${sourceName}: expected a list of servers or { "servers": [...] }`);
+  }
+
+  const validator = new ConfigValidator();
+  const names = new Set<string>();
+  const servers: MCPServerConfig[] = [];
+
+  list.forEach((entry: unknown, index: number) => {
+    const path = `servers[${index}]`;
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      validator.fail(path, 'must be an object');
+      return;
+    }
+    const record = entry as Record<string, unknown>;
+
+    const name = validator.string(record, 'name', path, true);
+    if (name && !SERVER_NAME_PATTERN.test(name)) {
+      validator.fail(`${path}.name`, 'may only contain letters, digits, "_" and "-"');
+    } else if (name && names.has(name)) {
+      validator.fail(`${path}.name`, `duplicate server name "${name}"`);
+    }
+    if (name) {
+      names.add(name);
+    }
+
+    const transport = validator.string(record, 'transport', path) || 'streamable-http';
+    if (!TRANSPORTS.includes(transport as MCPTransportType)) {
+      validator.fail(`${path}.transport`, `must be one of: ${TRANSPORTS.join(', ')}`);
+    }
+    const isStdio = transport === 'stdio';
+
+    // HTTP transports need a url; stdio servers are spawned from a command
+    const url = validator.string(record, 'url', path, !isStdio);
+    if (url && !isStdio) {
+      try {
+        const parsed = new URL(url);
+        if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+          validator.fail(`${path}.url`, 'must be an http(s) URL');
+        }
+      } catch {
+        validator.fail(`${path}.url`, `is not a valid URL: ${url}`);
+      }
+    }
+    const command = validator.string(record, 'command', path, isStdio);
+
+    const fieldsForOtherTransport = isStdio ? ['url', 'headers'] : ['command', 'args', 'env', 'cwd'];
+    fieldsForOtherTransport
+      .filter(key => record[key] !== undefined)
+      .forEach(key => validator.fail(`${path}.${key}`, `is not supported by the ${transport} transport`));
+
+    const config: MCPServerConfig = {
+      name: name || '',
+      url,
+      transport: transport as MCPTransportType,
+      command,
+      args: validator.stringList(record, 'args', path),
+      env: validator.stringMap(record, 'env', path),
+      cwd: validator.string(record, 'cwd', path),
+      headers: validator.stringMap(record, 'headers', path),
+      timeoutMs: validator.positiveInt(record, 'timeoutMs', path),
+      connectTimeoutMs: validator.positiveInt(record, 'connectTimeoutMs', path),
+      allowTools: validator.stringList(record, 'allowTools', path),
+      denyTools: validator.stringList(record, 'denyTools', path),
+      toolPrefix: validator.string(record, 'toolPrefix', path),
+      credentials: validateCredentials(validator, record, path),
+    };
+
+    // stdio has no HTTP requests to carry credential headers
+    if (isStdio && config.credentials?.some(rule => rule.header)) {
+      validator.fail(`${path}.credentials`, 'header delivery is not supported by the stdio transport');
+    }
+
+    servers.push(config);
+  });
+
+  if (validator.errors.length > 0) {
+    throw new Error(
+      `Invalid MCP server config in ${sourceName}:\n  - ${validator.errors.join('\n  - ')}`
+    );
+  }
+
+  return servers;
+}
+
+/**
+ * Read the server list from a .json, .yaml or .yml file
+ */
+function readServerFile(filePath: string): unknown {
+  if (!existsSync(filePath)) {
+    throw new Error(`MCP_SERVERS_FILE not found: ${filePath}`);
+  }
+
+  const content = readFileSync(filePath, 'utf-8');
+  const extension = extname(filePath).toLowerCase();
+
+  try {
+    return extension === '.yaml' || extension === '.yml' ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse MCP_SERVERS_FILE ${filePath}: ${errorMessage}`);
+  }
+}
+
+/**
+ * Load MCP server configurations
+ *
+ * Sources, in order: MCP_SERVERS_FILE, MCP_SERVERS (inline JSON), then the legacy
+ * DRM_MCP_URL / OUTAGE_MCP_URL variables for any server name not already declared
+ */
+export function loadMCPServerConfigs(): MCPServerConfig[] {
+  let servers: MCPServerConfig[] = [];
+
+  if (process.env.MCP_SERVERS_FILE) {
+    servers = validateMCPServerConfigs(readServerFile(process.env.MCP_SERVERS_FILE), process.env.MCP_SERVERS_FILE);
+  } else if (process.env.MCP_SERVERS) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(process.env.MCP_SERVERS);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`MCP_SERVERS is not valid JSON: ${errorMessage}`);
+    }
+    servers = validateMCPServerConfigs(raw, 'MCP_SERVERS');
+  }
+
+  const declared = new Set(servers.map(s => s.name));
+
+  // DRM MCP Server
+  if (process.env.DRM_MCP_URL && !declared.has('drm')) {
+    servers.push({
+      name: 'drm',
+      url: process.env.DRM_MCP_URL,
+      credentials: LEGACY_DRM_CREDENTIALS,
+    });
+  }
+
+  // Outage Monitor MCP Server
+  if (process.env.OUTAGE_MCP_URL && !declared.has('outage')) {
+    servers.push({
+      name: 'outage',
+      url: process.env.OUTAGE_MCP_URL,
+    });
+  }
+
+  return servers;
+}
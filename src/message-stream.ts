@@ -0,0 +1,117 @@
+/**
+ * Accumulator for Anthropic Messages API streaming events
+ * Rebuilds a complete Anthropic.Message from raw stream events (including thinking blocks and signatures)
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { ModelStreamEvent } from './types';
+
+/**
+ * Parse the streamed input JSON of a tool_use block
+ * A stream cut off by max_tokens can stop inside the JSON; the block then gets an empty input and the
+ * message keeps its max_tokens stop reason, so the caller can retry it with a larger limit
+ */
+export function parseToolInputJson(json: string): Record<string, unknown> {
+  if (json.length === 0) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(json);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Message Stream Accumulator
+ * Feed it raw Messages API stream events in order, then read the final message
+ */
+export class MessageStreamAccumulator {
+  private message: any = null;
+  private partialJson: Map<number, string> = new Map();
+
+  /**
+   * Apply a single stream event and return the delta to forward to listeners, if any
+   */
+  handleEvent(event: any): ModelStreamEvent | undefined {
+    switch (event.type) {
+      case 'message_start':
+        this.message = { ...event.message, content: [] };
+        return undefined;
+
+      case 'content_block_start': {
+        const block = { ...event.content_block };
+        if (block.type === 'tool_use') {
+          block.input = {};
+          this.partialJson.set(event.index, '');
+        }
+        this.requireMessage().content[event.index] = block;
+        return undefined;
+      }
+
+      case 'content_block_delta': {
+        const block = this.requireMessage().content[event.index];
+        const delta = event.delta;
+        if (!block) {
+          return undefined;
+        }
+
+        if (delta.type === 'text_delta') {
+          block.text = (block.text || '') + delta.text;
+          return { type: 'text_delta', text: delta.text };
+        } else if (delta.type === 'thinking_delta') {
+          block.thinking = (block.thinking || '') + delta.thinking;
+          return { type: 'thinking_delta', thinking: delta.thinking };
+        } else if (delta.type === 'signature_delta') {
+          block.signature = (block.signature || '') + delta.signature;
+        } else if (delta.type === 'input_json_delta') {
+          this.partialJson.set(event.index, (this.partialJson.get(event.index) || '') + delta.partial_json);
+        }
+        return undefined;
+      }
+
+      case 'content_block_stop': {
+        const block = this.requireMessage().content[event.index];
+        const json = this.partialJson.get(event.index);
+        if (block?.type === 'tool_use' && json !== undefined) {
+          block.input = parseToolInputJson(json);
+          this.partialJson.delete(event.index);
+        }
+        return undefined;
+      }
+
+      case 'message_delta': {
+        const message = this.requireMessage();
+        message.stop_reason = event.delta?.stop_reason ?? message.stop_reason;
+        message.stop_sequence = event.delta?.stop_sequence ?? message.stop_sequence;
+        if (event.usage) {
+          message.usage = { ...message.usage, ...event.usage };
+        }
+        return undefined;
+      }
+
+      default:
+        // message_stop, ping and provider-specific events carry nothing we need
+        return undefined;
+    }
+  }
+
+  /**
+   * Get the accumulated message (throws if the stream never started)
+   */
+  finalMessage(): Anthropic.Message {
+    const message = this.requireMessage();
+    return {
+      ...message,
+      content: message.content.filter((block: any) => block !== undefined),
+    } as Anthropic.Message;
+  }
+
+  private requireMessage(): any {
+    if (!this.message) {
+      throw new Error('Stream ended before message_start was received');
+    }
+    return this.message;
+  }
+}
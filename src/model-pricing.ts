@@ -0,0 +1,121 @@
+/**
+ * Model price table
+ * Computes the dollar cost of model calls from their token usage
+ */
+
+import { CostBreakdown, CostReport, UsageStats } from './types';
+
+/**
+ * Prices in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite5m: number;  // 5-minute cache writes (1.25x input for Claude)
+  cacheWrite1h: number;  // 1-hour cache writes (2x input for Claude)
+  cacheRead: number;     // Cache hits, either TTL (0.1x input for Claude)
+}
+
+/**
+ * Prices of the default model tiers (see model-tiers.ts) and the Bedrock models BedrockClient maps them to
+ * Keyed by Anthropic model ID or Bedrock base model ID (see normalizeModelId)
+ * Nova does not charge for cache writes, so they cost the same as regular input
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-haiku-4-5-20251001': { input: 1, output: 5, cacheWrite5m: 1.25, cacheWrite1h: 2, cacheRead: 0.1 },
+  'claude-sonnet-4-5-20250929': { input: 3, output: 15, cacheWrite5m: 3.75, cacheWrite1h: 6, cacheRead: 0.3 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15, cacheWrite5m: 3.75, cacheWrite1h: 6, cacheRead: 0.3 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4, cacheWrite5m: 1, cacheWrite1h: 1.6, cacheRead: 0.08 },
+  'amazon.nova-micro-v1:0': { input: 0.035, output: 0.14, cacheWrite5m: 0.035, cacheWrite1h: 0.035, cacheRead: 0.00875 },
+  'amazon.nova-lite-v1:0': { input: 0.06, output: 0.24, cacheWrite5m: 0.06, cacheWrite1h: 0.06, cacheRead: 0.015 },
+  'amazon.nova-pro-v1:0': { input: 0.8, output: 3.2, cacheWrite5m: 0.8, cacheWrite1h: 0.8, cacheRead: 0.2 },
+};
+
+/**
+ * Reduce a Bedrock model ID to its price table key
+ * "us.anthropic.claude-sonnet-4-5-20250929-v1:0" -> "claude-sonnet-4-5-20250929",
+ * "us.amazon.nova-pro-v1:0" -> "amazon.nova-pro-v1:0"
+ */
+export function normalizeModelId(model: string): string {
+  const id = model.replace(/^(us|eu|apac|global)\./, '');
+  if (id.startsWith('anthropic.')) {
+    return id.slice('anthropic.'.length).replace(/-v\d+:\d+$/, '');
+  }
+  return id;
+}
+
+/**
+ * Look up the price of a model (Anthropic or Bedrock ID)
+ */
+export function getModelPrice(model: string): ModelPrice | undefined {
+  return MODEL_PRICES[model] || MODEL_PRICES[normalizeModelId(model)];
+}
+
+/**
+ * Cost of a single model call
+ * Cache writes without a TTL breakdown are charged at the 5-minute rate
+ */
+export function calculateCost(price: ModelPrice, usage: UsageStats): CostBreakdown {
+  const write1h = usage.cache_creation_1h_tokens || 0;
+  const write5m = Math.max(usage.cache_creation_tokens - write1h, 0);
+
+  const inputUsd = (usage.input_tokens * price.input) / 1_000_000;
+  const outputUsd = (usage.output_tokens * price.output) / 1_000_000;
+  const cacheWriteUsd = (write5m * price.cacheWrite5m + write1h * price.cacheWrite1h) / 1_000_000;
+  const cacheReadUsd = (usage.cache_read_tokens * price.cacheRead) / 1_000_000;
+
+  return {
+    inputUsd,
+    outputUsd,
+    cacheWriteUsd,
+    cacheReadUsd,
+    totalUsd: inputUsd + outputUsd + cacheWriteUsd + cacheReadUsd,
+  };
+}
+
+/**
+ * Cost of a request: one breakdown per model call plus the total
+ * models[i] is the model of usageBreakdown[i] (calls can be served by different fallback targets)
+ * Returns undefined if a model has no known price
+ */
+export function buildCostReport(usageBreakdown: UsageStats[], models: string[]): CostReport | undefined {
+  const prices = models.map(getModelPrice);
+  if (usageBreakdown.length === 0 || usageBreakdown.length !== models.length || prices.some(price => !price)) {
+    return undefined;
+  }
+
+  const iterations = usageBreakdown.map((usage, index) => calculateCost(prices[index]!, usage));
+  const sum = (field: keyof CostBreakdown) => iterations.reduce((total, cost) => total + cost[field], 0);
+
+  return {
+    model: models[models.length - 1],
+    inputUsd: roundUsd(sum('inputUsd')),
+    outputUsd: roundUsd(sum('outputUsd')),
+    cacheWriteUsd: roundUsd(sum('cacheWriteUsd')),
+    cacheReadUsd: roundUsd(sum('cacheReadUsd')),
+    totalUsd: roundUsd(sum('totalUsd')),
+    iterations: iterations.map((cost, index) => ({
+      model: models[index],
+      inputUsd: roundUsd(cost.inputUsd),
+      outputUsd: roundUsd(cost.outputUsd),
+      cacheWriteUsd: roundUsd(cost.cacheWriteUsd),
+      cacheReadUsd: roundUsd(cost.cacheReadUsd),
+      totalUsd: roundUsd(cost.totalUsd),
+    })),
+  };
+}
+
+/**
+ * Estimate the total cost of model calls in USD (models[i] is the model of usage[i])
+ * Returns undefined if a model has no known price
+ */
+export function estimateCost(usage: UsageStats[], models: string[]): number | undefined {
+  return buildCostReport(usage, models)?.totalUsd;
+}
+
+/**
+ * Round to a millionth of a dollar for reporting
+ */
+export function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
@@ -0,0 +1,355 @@
+/**
+ * Model tiers
+ * Provider, model and inference settings per tier, loaded from MODEL_TIERS_FILE (JSON/YAML) or MODEL_TIERS
+ * and layered over the built-in defaults. The three complexity levels always exist; additional tiers
+ * (e.g. VISION or EXPORT) can be requested per chat request. The tier file is reloaded when it changes
+ */
+
+import { readFileSync, existsSync, watchFile, unwatchFile } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { ComplexityLevel, Logger, ModelConfig, ModelProvider, ModelTier, ModelTierName } from './types';
+import { normalizeModelId } from './model-pricing';
+
+/**
+ * Built-in tiers for the complexity levels (fields not set in the tier config come from here)
+ */
+export const DEFAULT_MODEL_TIERS: Record<ComplexityLevel, ModelTier> = {
+  SIMPLE: {
+    model: 'claude-haiku-4-5-20251001',
+    maxTokens: 8000,
+  },
+  PROCEDURAL: {
+    model: 'claude-sonnet-4-5-20250929',
+    maxTokens: 16000,
+  },
+  ANALYTICAL: {
+    model: 'claude-sonnet-4-5-20250929',
+    maxTokens: 16000,
+    thinkingBudget: 10000,
+  },
+};
+
+/**
+ * Output token limits of known models, keyed like the price table (see normalizeModelId)
+ * Used to cap max_tokens when a cut-off response is retried with a larger limit
+ */
+export const MODEL_OUTPUT_LIMITS: Record<string, number> = {
+  'claude-haiku-4-5-20251001': 64000,
+  'claude-sonnet-4-5-20250929': 64000,
+  'claude-3-5-sonnet-20241022': 8192,
+  'claude-3-5-haiku-20241022': 8192,
+  'amazon.nova-micro-v1:0': 10000,
+  'amazon.nova-lite-v1:0': 10000,
+  'amazon.nova-pro-v1:0': 10000,
+};
+
+/**
+ * How often the tier file is checked for changes
+ */
+export const DEFAULT_TIER_RELOAD_INTERVAL_MS = 5000;
+
+const TIER_NAME_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+const TIER_FIELDS: Array<keyof ModelTier> = [
+  'provider',
+  'model',
+  'maxTokens',
+  'maxOutputTokens',
+  'thinkingBudget',
+  'temperature',
+  'topP',
+  'stopSequences',
+];
+const PROVIDERS: ModelProvider[] = ['anthropic', 'bedrock'];
+const MIN_THINKING_BUDGET = 1024;
+
+/**
+ * Validate one tier (already merged with its default) and collect errors with the field path
+ */
+function validateTier(tier: Record<string, unknown>, path: string, errors: string[]): void {
+  for (const key of Object.keys(tier)) {
+    if (!TIER_FIELDS.includes(key as keyof ModelTier)) {
+      errors.push(`${path}.${key}: unknown field (expected ${TIER_FIELDS.join(', ')})`);
+    }
+  }
+
+  const { provider, model, maxTokens, maxOutputTokens, thinkingBudget, temperature, topP, stopSequences } = tier;
+  const isPositiveInt = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+  const isUnitNumber = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+
+  if (provider !== undefined && !PROVIDERS.includes(provider as ModelProvider)) {
+    errors.push(`${path}.provider: must be one of: ${PROVIDERS.join(', ')}`);
+  }
+  if (typeof model !== 'string' || model.length === 0) {
+    errors.push(`${path}.model: is required and must be a non-empty string`);
+  }
+  if (!isPositiveInt(maxTokens)) {
+    errors.push(`${path}.maxTokens: is required and must be a positive integer`);
+  }
+  if (maxOutputTokens !== undefined
+    && (!isPositiveInt(maxOutputTokens) || (isPositiveInt(maxTokens) && (maxOutputTokens as number) < (maxTokens as number)))) {
+    errors.push(`${path}.maxOutputTokens: must be an integer of at least maxTokens`);
+  }
+  if (thinkingBudget !== undefined && thinkingBudget !== 0) {
+    if (!Number.isInteger(thinkingBudget) || (thinkingBudget as number) < MIN_THINKING_BUDGET) {
+      errors.push(`${path}.thinkingBudget: must be 0 (disabled) or an integer of at least ${MIN_THINKING_BUDGET}`);
+    } else if (isPositiveInt(maxTokens) && (thinkingBudget as number) >= (maxTokens as number)) {
+      errors.push(`${path}.thinkingBudget: must be less than maxTokens`);
+    }
+    if (temperature !== undefined) {
+      errors.push(`${path}.temperature: cannot be combined with extended thinking`);
+    }
+  }
+  if (temperature !== undefined && !isUnitNumber(temperature)) {
+    errors.push(`${path}.temperature: must be a number between 0 and 1`);
+  }
+  if (topP !== undefined && !isUnitNumber(topP)) {
+    errors.push(`${path}.topP: must be a number between 0 and 1`);
+  }
+  if (stopSequences !== undefined
+    && (!Array.isArray(stopSequences) || stopSequences.some(item => typeof item !== 'string' || item.length === 0))) {
+    errors.push(`${path}.stopSequences: must be a list of non-empty strings`);
+  }
+}
+
+/**
+ * Validate a raw tier config (parsed JSON/YAML) and merge it over the built-in tiers
+ * Accepts { "SIMPLE": {...}, "VISION": {...} } or { "tiers": {...} }; built-in tiers may set only the
+ * fields they change, new tiers need at least model and maxTokens
+ * Throws a single error listing every problem found
+ *
+ * @param availableProviders - Providers with credentials configured (tiers using others are rejected)
+ */
+export function validateModelTiers(
+  raw: unknown,
+  sourceName: string,
+  availableProviders?: ModelProvider[]
+): Record<string, ModelTier> {
+  const map = raw && typeof raw === 'object' && !Array.isArray(raw) && 'tiers' in raw ? (raw as any).tiers : raw;
+  if (!map || typeof map !== 'object' || Array.isArray(map)) {
+    throw new Error(`Invalid model tier config in ${sourceName}: expected an object of tiers keyed by name`);
+  }
+
+  const errors: string[] = [];
+  const tiers: Record<string, ModelTier> = { ...DEFAULT_MODEL_TIERS };
+
+  for (const [name, entry] of Object.entries(map)) {
+    if (!TIER_NAME_PATTERN.test(name)) {
+      errors.push(`${name}: tier names must be upper case letters, digits and "_" (e.g. VISION)`);
+      continue;
+    }
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      errors.push(`${name}: must be an object`);
+      continue;
+    }
+
+    const merged = { ...tiers[name], ...entry } as Record<string, unknown>;
+    validateTier(merged, name, errors);
+
+    const provider = merged.provider as ModelProvider | undefined;
+    if (provider && availableProviders && PROVIDERS.includes(provider) && !availableProviders.includes(provider)) {
+      errors.push(`${name}.provider: ${provider} is not configured (${provider === 'anthropic' ? 'ANTHROPIC_API_KEY' : 'AWS_REGION'} is not set)`);
+    }
+
+    tiers[name] = merged as unknown as ModelTier;
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid model tier config in ${sourceName}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return tiers;
+}
+
+/**
+ * Read a tier config from a .json, .yaml or .yml file
+ */
+function readTierFile(filePath: string): unknown {
+  if (!existsSync(filePath)) {
+    throw new Error(`MODEL_TIERS_FILE not found: ${filePath}`);
+  }
+
+  const content = readFileSync(filePath, 'utf-8');
+  const extension = extname(filePath).toLowerCase();
+
+  try {
+    return extension === '.yaml' || extension === '.yml' ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to parse MODEL_TIERS_FILE ${filePath}: ${errorMessage}`);
+  }
+}
+
+/**
+ * Load model tiers from MODEL_TIERS_FILE, then MODEL_TIERS (inline JSON), else the built-in tiers
+ */
+export function loadModelTiers(availableProviders?: ModelProvider[]): Record<string, ModelTier> {
+  if (process.env.MODEL_TIERS_FILE) {
+    return validateModelTiers(readTierFile(process.env.MODEL_TIERS_FILE), process.env.MODEL_TIERS_FILE, availableProviders);
+  }
+
+  if (process.env.MODEL_TIERS) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(process.env.MODEL_TIERS);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`MODEL_TIERS is not valid JSON: ${errorMessage}`);
+    }
+    return validateModelTiers(raw, 'MODEL_TIERS', availableProviders);
+  }
+
+  return { ...DEFAULT_MODEL_TIERS };
+}
+
+/**
+ * Output token limit of a model (Anthropic or Bedrock ID), if known
+ */
+export function getModelOutputLimit(model: string): number | undefined {
+  return MODEL_OUTPUT_LIMITS[model] ?? MODEL_OUTPUT_LIMITS[normalizeModelId(model)];
+}
+
+/**
+ * Convert a tier to the request settings the AI clients use
+ */
+export function toModelConfig(tier: ModelTier): ModelConfig {
+  return {
+    model: tier.model,
+    max_tokens: tier.maxTokens,
+    thinking: tier.thinkingBudget
+      ? { type: 'enabled', budget_tokens: tier.thinkingBudget }
+      : { type: 'disabled' },
+    ...(tier.temperature !== undefined && { temperature: tier.temperature }),
+    ...(tier.topP !== undefined && { top_p: tier.topP }),
+    ...(tier.stopSequences && { stop_sequences: tier.stopSequences }),
+  };
+}
+
+/**
+ * Model Tier Registry
+ * Holds the current tiers; a watched tier file replaces them on change if the new file is valid
+ */
+export class ModelTierRegistry {
+  private tiers: Record<string, ModelTier> = { ...DEFAULT_MODEL_TIERS };
+  private defaultProvider: ModelProvider = 'anthropic';
+  private availableProviders?: ModelProvider[];
+  private watchedFile?: string;
+  private logger?: Logger;
+
+  /**
+   * Replace the tiers (validated by loadModelTiers) and set the provider of tiers that do not name one
+   */
+  configure(
+    tiers: Record<string, ModelTier>,
+    defaultProvider: ModelProvider,
+    availableProviders?: ModelProvider[]
+  ): void {
+    this.tiers = tiers;
+    this.defaultProvider = defaultProvider;
+    this.availableProviders = availableProviders;
+  }
+
+  /**
+   * Reload the tier file whenever it changes
+   */
+  watch(filePath: string, logger: Logger, intervalMs: number = DEFAULT_TIER_RELOAD_INTERVAL_MS): void {
+    this.close();
+    this.watchedFile = filePath;
+    this.logger = logger;
+
+    watchFile(filePath, { interval: intervalMs }, (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs) {
+        this.reload();
+      }
+    }).unref();
+  }
+
+  /**
+   * Re-read the watched tier file; an invalid file is logged and the current tiers are kept
+   * Returns true if the tiers were replaced
+   */
+  reload(): boolean {
+    if (!this.watchedFile) {
+      return false;
+    }
+
+    try {
+      this.tiers = validateModelTiers(readTierFile(this.watchedFile), this.watchedFile, this.availableProviders);
+      this.logger?.info('Model tiers reloaded', {
+        file: this.watchedFile,
+        tiers: this.describe(),
+      });
+      return true;
+    } catch (error) {
+      this.logger?.error('Model tier reload failed, keeping the current tiers', {
+        file: this.watchedFile,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Stop watching the tier file
+   */
+  close(): void {
+    if (this.watchedFile) {
+      unwatchFile(this.watchedFile);
+      this.watchedFile = undefined;
+    }
+  }
+
+  has(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.tiers, name);
+  }
+
+  names(): string[] {
+    return Object.keys(this.tiers);
+  }
+
+  /**
+   * Get a tier with its provider resolved (throws for unknown tiers)
+   */
+  get(name: ModelTierName): ModelTier & { provider: ModelProvider } {
+    const tier = this.has(name) ? this.tiers[name] : undefined;
+    if (!tier) {
+      throw new Error(`Unknown model tier "${name}" (configured: ${this.names().join(', ')})`);
+    }
+    return { ...tier, provider: tier.provider || this.defaultProvider };
+  }
+
+  /**
+   * Largest max_tokens a call of a tier may use with the model that served it
+   * The tier's maxOutputTokens applies to its own model; other models (fallback targets) use their known
+   * limit, and unknown models are not raised above the tier's maxTokens
+   */
+  getOutputLimit(name: ModelTierName, servedModel: string): number {
+    const tier = this.get(name);
+    const explicit = servedModel === tier.model || getModelOutputLimit(servedModel) === undefined
+      ? tier.maxOutputTokens
+      : undefined;
+    return explicit ?? getModelOutputLimit(servedModel) ?? tier.maxTokens;
+  }
+
+  /**
+   * Get the request settings of a tier
+   */
+  getModelConfig(name: ModelTierName): ModelConfig {
+    return toModelConfig(this.get(name));
+  }
+
+  /**
+   * Summary of the current tiers for logs ("TIER: provider:model")
+   */
+  describe(): Record<string, string> {
+    return Object.fromEntries(this.names().map(name => {
+      const tier = this.get(name);
+      return [name, `${tier.provider}:${tier.model}`];
+    }));
+  }
+}
+
+/**
+ * Tiers used by the AI clients (configured at startup from AppConfig.modelTiers)
+ */
+export const modelTiers = new ModelTierRegistry();
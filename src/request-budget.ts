@@ -0,0 +1,89 @@
+/**
+ * Per-request token and cost budgets
+ * The agentic loop stops calling tools once a request has used up its budget
+ */
+
+import { BudgetReport, ComplexityLevel, RequestBudget, UsageStats } from './types';
+import { estimateCost } from './model-pricing';
+
+/**
+ * Budget limits, in the order they are reported
+ */
+export const BUDGET_LIMITS: Array<keyof RequestBudget> = ['maxInputTokens', 'maxOutputTokens', 'maxTotalTokens', 'maxCostUsd'];
+
+/**
+ * Instruction sent with the skipped tool results once the budget is used up
+ */
+export const BUDGET_EXHAUSTED_INSTRUCTION =
+  'The token budget for this request is used up, so the requested tools were not run and no more tools can be called. ' +
+  'Give your best final answer from the information gathered so far, and say briefly what could not be checked.';
+
+/**
+ * Answer used when the final call after the budget ran out produced no text
+ */
+export const BUDGET_EXHAUSTED_ANSWER = 'Budget exhausted before an answer was produced.';
+
+/**
+ * Merge the request's budget over the configured default for its complexity level
+ * Returns undefined if no limit applies
+ */
+export function resolveRequestBudget(
+  defaults: Partial<Record<ComplexityLevel, RequestBudget>> | undefined,
+  complexity: ComplexityLevel,
+  override?: RequestBudget
+): RequestBudget | undefined {
+  const budget: RequestBudget = { ...defaults?.[complexity], ...override };
+  return BUDGET_LIMITS.some(limit => budget[limit] !== undefined) ? budget : undefined;
+}
+
+/**
+ * Validate a budget from a request body or the configuration
+ * Returns an error message, or undefined if the budget is valid
+ */
+export function validateRequestBudget(budget: unknown): string | undefined {
+  if (typeof budget !== 'object' || budget === null || Array.isArray(budget)) {
+    return 'must be an object';
+  }
+
+  for (const [key, value] of Object.entries(budget)) {
+    if (!BUDGET_LIMITS.includes(key as keyof RequestBudget)) {
+      return `unknown limit "${key}" (expected ${BUDGET_LIMITS.join(', ')})`;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      return `"${key}" must be a positive number`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Measure what a request has used against its budget (models[i] is the model of usage[i])
+ * Input tokens include cache writes and reads; the cost limit is skipped for models without a known price
+ */
+export function checkBudget(budget: RequestBudget, usage: UsageStats[], models: string[]): BudgetReport {
+  const inputTokens = usage.reduce(
+    (total, stats) => total + stats.input_tokens + stats.cache_creation_tokens + stats.cache_read_tokens,
+    0
+  );
+  const outputTokens = usage.reduce((total, stats) => total + stats.output_tokens, 0);
+  const costUsd = estimateCost(usage, models);
+
+  const used: Record<keyof RequestBudget, number | undefined> = {
+    maxInputTokens: inputTokens,
+    maxOutputTokens: outputTokens,
+    maxTotalTokens: inputTokens + outputTokens,
+    maxCostUsd: costUsd,
+  };
+
+  return {
+    limits: budget,
+    inputTokens,
+    outputTokens,
+    costUsd,
+    exceeded: BUDGET_LIMITS.filter(limit => {
+      const value = used[limit];
+      return budget[limit] !== undefined && value !== undefined && value >= budget[limit]!;
+    }),
+  };
+}
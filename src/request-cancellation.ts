@@ -0,0 +1,43 @@
+/**
+ * Request cancellation helpers
+ * An AbortSignal follows a chat request from the HTTP layer through the agentic loop,
+ * the model calls and the MCP tool calls
+ */
+
+/**
+ * Error raised when a request is aborted by the client or through the cancel endpoint
+ */
+export class RequestCancelledError extends Error {
+  constructor(message: string = 'Request was cancelled') {
+    super(message);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * Throw a RequestCancelledError if the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new RequestCancelledError();
+  }
+}
+
+/**
+ * Sleep (e.g. for retry backoff), ending early with a RequestCancelledError if the signal aborts
+ */
+export function sleepUnlessCancelled(ms: number, signal?: AbortSignal): Promise<void> {
+  throwIfCancelled(signal);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,110 @@
+/**
+ * Recovery for responses cut off by max_tokens
+ * Text answers are continued with a follow-up turn and stitched together; responses cut off
+ * inside a tool call (or before any text) are retried with a larger max_tokens
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { TruncationRecovery } from './types';
+
+/**
+ * Default number of follow-up calls for one cut-off response
+ */
+export const DEFAULT_MAX_CONTINUATIONS = 2;
+
+/**
+ * Default upper limit for max_tokens when retrying a cut-off tool call
+ */
+export const DEFAULT_MAX_TOKENS_CEILING = 32000;
+
+/**
+ * User turn asking the model to pick up where its cut-off answer stopped
+ */
+export const CONTINUATION_PROMPT = 'Your previous response was cut off by the output token limit. '
+  + 'Continue exactly where it stopped, without repeating anything or adding an introduction.';
+
+/**
+ * Answer used when a response is still cut off and has no text once its half-formed tool calls are dropped
+ */
+export const TRUNCATION_NOTICE = 'The response was cut off by the output token limit before an answer was produced.';
+
+/**
+ * Check whether a response stopped on the output token limit
+ */
+export function isTruncated(response: Anthropic.Message): boolean {
+  return response.stop_reason === 'max_tokens';
+}
+
+/**
+ * Choose how to recover a cut-off response
+ * A half-formed tool call cannot be continued, and a response without text has nothing to continue from
+ */
+export function chooseRecovery(response: Anthropic.Message): TruncationRecovery {
+  const hasToolUse = response.content.some(block => block.type === 'tool_use');
+  const hasText = response.content.some(block => block.type === 'text' && block.text.length > 0);
+  return hasToolUse || !hasText ? 'retry' : 'continue';
+}
+
+/**
+ * max_tokens for retrying a cut-off response: double what it used, capped at the ceiling
+ * Returns undefined if the response already used the ceiling
+ */
+export function nextMaxTokens(response: Anthropic.Message, ceiling: number): number | undefined {
+  const used = response.usage.output_tokens;
+  return used >= ceiling ? undefined : Math.min(used * 2, ceiling);
+}
+
+/**
+ * Drop half-formed tool calls from a cut-off response so it can be returned as a final answer
+ */
+export function withoutToolUse(response: Anthropic.Message): Anthropic.Message {
+  return { ...response, content: response.content.filter(block => block.type !== 'tool_use') };
+}
+
+/**
+ * Turn a response that is still cut off into a final answer
+ * Half-formed tool calls are dropped; if no text is left, blank text blocks are replaced by TRUNCATION_NOTICE
+ */
+export function toTruncatedAnswer(response: Anthropic.Message): Anthropic.Message {
+  const answer = withoutToolUse(response);
+  const hasText = answer.content.some(block => block.type === 'text' && block.text.trim().length > 0);
+  return hasText
+    ? answer
+    : {
+        ...answer,
+        content: [
+          ...answer.content.filter(block => block.type !== 'text'),
+          { type: 'text', text: TRUNCATION_NOTICE } as Anthropic.TextBlock,
+        ],
+      };
+}
+
+/**
+ * Block types of extended thinking (not part of the SDK's content block union)
+ */
+const THINKING_BLOCK_TYPES = ['thinking', 'redacted_thinking'];
+
+/**
+ * Join a cut-off response and its continuation into one response
+ * Half-formed tool calls of the cut-off part are dropped first. The continuation's thinking blocks are
+ * dropped, since thinking must come before the text and tool calls of a turn; the text the continuation
+ * starts with is appended to the last text block of the cut-off part, and its other blocks follow in order.
+ * Stop reason, model and usage come from the continuation (usage is tracked per model call, not per
+ * stitched response)
+ */
+export function stitchResponses(partial: Anthropic.Message, continuation: Anthropic.Message): Anthropic.Message {
+  const content: Anthropic.ContentBlock[] = withoutToolUse(partial).content.map(block => ({ ...block }));
+  const lastText = [...content].reverse().find((block): block is Anthropic.TextBlock => block.type === 'text');
+  const added = continuation.content.filter(block => !THINKING_BLOCK_TYPES.includes((block as any).type));
+  const firstTextIndex = added.findIndex(block => block.type === 'text');
+
+  added.forEach((block, index) => {
+    if (index === firstTextIndex && lastText && block.type === 'text') {
+      lastText.text += block.text;
+    } else {
+      content.push(block);
+    }
+  });
+
+  return { ...continuation, content };
+}
@@ -0,0 +1,252 @@
+/**
+ * Response accuracy validation
+ * Cross-checks numeric claims in the final answer (counts, "X of Y", percentages)
+ * against the tool outputs of the same turn
+ */
+
+import { AccuracyIssue, Logger } from './types';
+
+/**
+ * Nouns that mark a number as a count of fleet objects ("12 devices", "3 offline gateways")
+ */
+const COUNTED_NOUNS = 'devices?|alerts?|sites?|groups?|users?|gateways?|routers?|monitors?|streams?|jobs?|outages?|services?|accounts?|automations?';
+
+/**
+ * Group counts of status-like fields (string or boolean values) are expanded into sums of up to this many
+ * distinct values ("65 offline" = 62 disconnected + 3 never connected)
+ */
+const MAX_VALUES_FOR_SUMS = 8;
+
+/**
+ * Response Validator
+ */
+export class ResponseValidator {
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Check the numeric claims of a response against tool outputs
+   * Count claims are only checked when the turn produced tool data to check them against; numbers the user
+   * wrote in their message are accepted as well
+   */
+  validate(text: string, toolOutputs: string[], userMessage?: string): AccuracyIssue[] {
+    const known = collectKnownNumbers(toolOutputs);
+    const hasToolData = known.size > 0;
+    if (hasToolData && userMessage) {
+      addTextNumbers(userMessage, known);
+    }
+    const issues: AccuracyIssue[] = [];
+    const checkedPositions = new Set<number>();
+
+    // "X of Y" / "X out of Y", optionally followed by a percentage
+    const ratioPattern = /\b(\d[\d,]*)\s+(?:out\s+of|of)\s+(\d[\d,]*)\b([^.%\n]{0,40}?(\d+(?:\.\d+)?)\s*%)?/gi;
+    for (const match of text.matchAll(ratioPattern)) {
+      const part = parseNumber(match[1]);
+      const total = parseNumber(match[2]);
+      const claim = match[0].trim();
+      checkedPositions.add(match.index!);
+
+      if (part > total) {
+        issues.push({ type: 'invalid_ratio', claim, message: `"${claim}": ${part} is larger than the total ${total}` });
+        continue;
+      }
+
+      if (match[4] !== undefined && total > 0) {
+        const stated = parseFloat(match[4]);
+        const actual = (part / total) * 100;
+        if (!matchesRounded(stated, match[4], actual)) {
+          issues.push({
+            type: 'percentage_mismatch',
+            claim,
+            message: `"${claim}": ${part}/${total} is ${formatLike(actual, match[4])}%, not ${match[4]}%`,
+          });
+        }
+      }
+
+      if (hasToolData) {
+        for (const value of [part, total]) {
+          if (!known.has(value)) {
+            issues.push({
+              type: 'unsupported_count',
+              claim,
+              message: `"${claim}": ${value} does not match any count in the tool results`,
+            });
+          }
+        }
+      }
+    }
+
+    // "N devices", "N offline devices", "12 Devices"; the number of a name such as "Router 45" is not a count
+    if (hasToolData) {
+      const countPattern = new RegExp(`\\b(\\d[\\d,]*)\\s+(?:[a-z][a-z-]*\\s+)?(?:${COUNTED_NOUNS})\\b`, 'gi');
+      for (const match of text.matchAll(countPattern)) {
+        if (checkedPositions.has(match.index!) || followsName(text, match.index!)) {
+          continue;
+        }
+        const value = parseNumber(match[1]);
+        if (!known.has(value)) {
+          issues.push({
+            type: 'unsupported_count',
+            claim: match[0],
+            message: `"${match[0]}": ${value} does not match any count in the tool results`,
+          });
+        }
+      }
+    }
+
+    if (issues.length > 0) {
+      this.logger.warn('Response accuracy issues detected', {
+        issueCount: issues.length,
+        issues: issues.map(issue => issue.message),
+      });
+    }
+
+    return issues;
+  }
+}
+
+/**
+ * Build the follow-up message asking the model to correct its answer
+ */
+export function buildCorrectionPrompt(issues: AccuracyIssue[]): string {
+  return [
+    'An automatic accuracy check found possible errors in your answer:',
+    ...issues.map(issue => `- ${issue.message}`),
+    'Re-check these numbers against the tool results (use count_by_field or calculate if needed) and reply with ' +
+      'the complete corrected answer. Do not mention this check.',
+  ].join('\n');
+}
+
+/**
+ * Parse a number written with optional thousands separators
+ */
+function parseNumber(text: string): number {
+  return parseFloat(text.replace(/,/g, ''));
+}
+
+/**
+ * Check whether a stated percentage is the actual value rounded to the stated precision
+ */
+function matchesRounded(stated: number, statedText: string, actual: number): boolean {
+  const decimals = (statedText.split('.')[1] || '').length;
+  return Math.abs(stated - actual) <= 0.5 * Math.pow(10, -decimals) + 1e-9;
+}
+
+/**
+ * Format a value with the precision of the stated text (at least one decimal)
+ */
+function formatLike(value: number, statedText: string): string {
+  return value.toFixed(Math.max((statedText.split('.')[1] || '').length, 1));
+}
+
+/**
+ * Check whether the number at a position is part of a name ("Router 45", "the Paris 2 site")
+ * A capitalized word directly before the number is a name, unless it only starts the sentence
+ * ("Found 12 devices"); a counted noun ("Router", "Site") is a name even there
+ */
+function followsName(text: string, index: number): boolean {
+  const match = text.slice(0, index).match(/(?:^|(\S*)(\s+))([A-Z][\w-]*)\s+$/);
+  if (!match) {
+    return false;
+  }
+
+  const [, previousWord, separator, word] = match;
+  const startsSentence = previousWord === undefined
+    || separator.includes('\n')
+    || /(?:^|[.!?:])$|^[-*•]$/.test(previousWord);
+  return !startsSentence || new RegExp(`^(?:${COUNTED_NOUNS})$`, 'i').test(word);
+}
+
+/**
+ * Add every number written in a text
+ */
+function addTextNumbers(text: string, known: Set<number>): void {
+  for (const match of text.matchAll(/\d[\d,]*(?:\.\d+)?/g)) {
+    known.add(parseNumber(match[0]));
+  }
+}
+
+/**
+ * Collect every number a correct answer could be derived from:
+ * numeric values, list lengths, and per-field value counts of object lists (plus their sums and complements)
+ */
+function collectKnownNumbers(outputs: string[]): Set<number> {
+  const known = new Set<number>();
+
+  const visit = (value: unknown): void => {
+    if (typeof value === 'number') {
+      known.add(value);
+    } else if (typeof value === 'string') {
+      if (/^\d+(\.\d+)?$/.test(value)) {
+        known.add(parseFloat(value));
+      }
+    } else if (Array.isArray(value)) {
+      known.add(value.length);
+      addGroupCounts(value, known);
+      value.forEach(visit);
+    } else if (value !== null && typeof value === 'object') {
+      Object.values(value).forEach(visit);
+    }
+  };
+
+  for (const output of outputs) {
+    try {
+      visit(JSON.parse(output));
+    } catch {
+      // Plain-text output: every number in it counts
+      addTextNumbers(output, known);
+    }
+  }
+
+  return known;
+}
+
+/**
+ * Add per-field value counts of a list of objects
+ * Fields with a different value for every item (IDs, names) are skipped. Sums and complements of the counts
+ * are only added for status-like fields: string or boolean values with few distinct values
+ */
+function addGroupCounts(items: unknown[], known: Set<number>): void {
+  const objects = items.filter((item): item is Record<string, unknown> =>
+    item !== null && typeof item === 'object' && !Array.isArray(item));
+  if (objects.length === 0) {
+    return;
+  }
+
+  const fields = new Set(objects.flatMap(item => Object.keys(item)));
+  for (const field of fields) {
+    const counts = new Map<string, number>();
+    let statusLike = true;
+    for (const item of objects) {
+      const value = item[field];
+      if (value !== null && typeof value === 'object') {
+        continue;
+      }
+      if (value !== undefined && value !== null && typeof value !== 'string' && typeof value !== 'boolean') {
+        statusLike = false;
+      }
+      const key = String(value);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+
+    const values = Array.from(counts.values());
+    if (objects.length > 1 && values.length === objects.length) {
+      continue;
+    }
+
+    values.forEach(count => known.add(count));
+    if (!statusLike || values.length > MAX_VALUES_FOR_SUMS) {
+      continue;
+    }
+
+    // Every combination of values (e.g. disconnected + never connected)
+    for (let mask = 1; mask < (1 << values.length); mask++) {
+      const sum = values.reduce((total, count, index) => (mask & (1 << index) ? total + count : total), 0);
+      known.add(sum);
+      known.add(objects.length - sum);
+    }
+  }
+}
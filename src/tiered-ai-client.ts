@@ -0,0 +1,114 @@
+/**
+ * Model tier routing
+ * A composite AIClient that sends each call to the client of the provider its model tier uses,
+ * so tiers can mix Anthropic and Bedrock models
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  ModelTierName,
+  UsageStats,
+  AnthropicTool,
+  ModelStreamEvent,
+  ModelServedBy,
+  ModelProvider,
+  ModelToolChoice,
+} from './types';
+import { AIClient } from './ai-client.interface';
+import { modelTiers } from './model-tiers';
+
+/**
+ * Tiered AI Client
+ * The tier is looked up on every call, so reloaded tiers take effect with the next model call
+ */
+export class TieredAIClient implements AIClient {
+  private clients: Partial<Record<ModelProvider, AIClient>>;
+  private defaultClient: AIClient;
+  private origins: WeakMap<Anthropic.Message, AIClient> = new WeakMap();
+
+  /**
+   * @param clients - One client per configured provider
+   * @param defaultProvider - Provider whose client handles responses not produced by this client
+   */
+  constructor(clients: Partial<Record<ModelProvider, AIClient>>, defaultProvider: ModelProvider) {
+    const defaultClient = clients[defaultProvider];
+    if (!defaultClient) {
+      throw new Error(`No AI client configured for the default provider ${defaultProvider}`);
+    }
+
+    this.clients = clients;
+    this.defaultClient = defaultClient;
+  }
+
+  /**
+   * Client for the provider of a tier (throws if that provider is not configured)
+   */
+  private clientForTier(tier: ModelTierName): AIClient {
+    const { provider } = modelTiers.get(tier);
+    const client = this.clients[provider];
+    if (!client) {
+      throw new Error(`Model tier ${tier} uses provider ${provider}, which is not configured`);
+    }
+    return client;
+  }
+
+  async sendMessage(
+    messages: Anthropic.MessageParam[],
+    tools: AnthropicTool[],
+    tier: ModelTierName = 'ANALYTICAL',
+    signal?: AbortSignal,
+    maxTokens?: number,
+    toolChoice?: ModelToolChoice
+  ): Promise<Anthropic.Message> {
+    const client = this.clientForTier(tier);
+    const message = await client.sendMessage(messages, tools, tier, signal, maxTokens, toolChoice);
+    this.origins.set(message, client);
+    return message;
+  }
+
+  async streamMessage(
+    messages: Anthropic.MessageParam[],
+    tools: AnthropicTool[],
+    tier: ModelTierName = 'ANALYTICAL',
+    onEvent: (event: ModelStreamEvent) => void,
+    signal?: AbortSignal,
+    maxTokens?: number,
+    toolChoice?: ModelToolChoice
+  ): Promise<Anthropic.Message> {
+    const client = this.clientForTier(tier);
+    const message = await client.streamMessage(messages, tools, tier, onEvent, signal, maxTokens, toolChoice);
+    this.origins.set(message, client);
+    return message;
+  }
+
+  /**
+   * Client that produced a response (the default provider's client for responses from elsewhere)
+   */
+  private clientFor(response: Anthropic.Message): AIClient {
+    return this.origins.get(response) || this.defaultClient;
+  }
+
+  extractUsageStats(response: Anthropic.Message): UsageStats {
+    return this.clientFor(response).extractUsageStats(response);
+  }
+
+  extractTextContent(response: Anthropic.Message): string {
+    return this.clientFor(response).extractTextContent(response);
+  }
+
+  extractThinkingContent(response: Anthropic.Message): string | undefined {
+    return this.clientFor(response).extractThinkingContent(response);
+  }
+
+  extractToolUses(response: Anthropic.Message): Anthropic.ToolUseBlock[] {
+    return this.clientFor(response).extractToolUses(response);
+  }
+
+  hasToolUse(response: Anthropic.Message): boolean {
+    return this.clientFor(response).hasToolUse(response);
+  }
+
+  extractServedBy(response: Anthropic.Message): ModelServedBy {
+    return this.clientFor(response).extractServedBy(response);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Human approval policy for state-changing MCP tools
+ * Decides which tool calls must be approved by the user before they are executed
+ */
+
+import { MCPTool } from './types';
+import { globToRegExp, matchesAnyPattern } from './tool-patterns';
+
+/**
+ * Default tool name patterns that require approval
+ * Covers firmware updates, SCI commands, automation runs and user management
+ * (read-only SCI queries such as sci_query_device_state are deliberately not gated)
+ */
+export const DEFAULT_APPROVAL_PATTERNS: string[] = [
+  '*firmware_update*',
+  'update_*firmware*',
+  'send_sci*',
+  'sci_reboot*',
+  'sci_set*',
+  'sci_put*',
+  'sci_delete*',
+  'sci_send*',
+  'run_automation*',
+  'execute_automation*',
+  'create_user*',
+  'update_user*',
+  'delete_user*',
+];
+
+/**
+ * Error raised when an approval decision cannot be applied
+ * Carries the HTTP status the API should respond with
+ */
+export class ApprovalError extends Error {
+  readonly statusCode: 404 | 409;
+
+  constructor(message: string, statusCode: 404 | 409) {
+    super(message);
+    this.name = 'ApprovalError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Tool Approval Policy
+ * A tool requires approval if its name matches a configured pattern,
+ * or (optionally) if its MCP server marks it with the destructiveHint annotation
+ */
+export class ToolApprovalPolicy {
+  private patterns: RegExp[];
+  private honorDestructiveHint: boolean;
+
+  constructor(patterns: string[] = DEFAULT_APPROVAL_PATTERNS, honorDestructiveHint: boolean = true) {
+    this.patterns = patterns.map(globToRegExp);
+    this.honorDestructiveHint = honorDestructiveHint;
+  }
+
+  /**
+   * Check whether a tool call must be approved before execution
+   */
+  requiresApproval(toolName: string, tool?: MCPTool): boolean {
+    if (matchesAnyPattern(toolName, this.patterns)) {
+      return true;
+    }
+
+    return this.honorDestructiveHint && tool?.annotations?.destructiveHint === true;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Tool argument validation
+ * Checks model-produced tool arguments against the tool's JSON Schema before execution,
+ * so malformed calls get a precise, model-readable error without a round trip to the MCP server
+ */
+
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { MCPTool, Logger } from './types';
+
+/**
+ * Tool Argument Validator
+ * Compiles each tool's input schema once and counts validation failures per tool
+ */
+export class ToolArgumentValidator {
+  private ajv: Ajv;
+  private logger: Logger;
+  // Compiled validators keyed by schema object (a refreshed tool list brings new schema objects)
+  private compiled: WeakMap<object, ValidateFunction | null> = new WeakMap();
+  private failureCounts: Map<string, number> = new Map();
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+    // Servers publish schemas for many drafts and with custom keywords; validate what we understand
+    this.ajv = new Ajv({ allErrors: true, strict: false, validateSchema: false });
+  }
+
+  /**
+   * Validate tool arguments against the tool's input schema
+   * Returns the list of violations, or null if the arguments are valid
+   * (tools without a schema, or with a schema that cannot be compiled, are not validated)
+   */
+  validate(tool: MCPTool | undefined, input: unknown): string[] | null {
+    if (!tool?.inputSchema) {
+      return null;
+    }
+
+    const validateFn = this.getValidator(tool);
+    if (!validateFn || validateFn(input ?? {})) {
+      return null;
+    }
+
+    const violations = (validateFn.errors || []).map(describeError);
+    this.failureCounts.set(tool.name, (this.failureCounts.get(tool.name) || 0) + 1);
+
+    this.logger.warn(`Invalid arguments for tool: ${tool.name}`, {
+      violations,
+      failureCount: this.failureCounts.get(tool.name),
+    });
+
+    return violations;
+  }
+
+  /**
+   * Validation failures per tool since startup
+   */
+  getFailureCounts(): Record<string, number> {
+    return Object.fromEntries(this.failureCounts);
+  }
+
+  /**
+   * Get (or compile and cache) the validator for a tool's schema
+   */
+  private getValidator(tool: MCPTool): ValidateFunction | null {
+    const cached = this.compiled.get(tool.inputSchema);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let validateFn: ValidateFunction | null = null;
+    try {
+      validateFn = this.ajv.compile(tool.inputSchema);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Cannot compile input schema for tool: ${tool.name}`, { error: errorMessage });
+    }
+
+    this.compiled.set(tool.inputSchema, validateFn);
+    return validateFn;
+  }
+}
+
+/**
+ * Build the tool_result content returned to the model for invalid arguments
+ */
+export function formatViolations(toolName: string, violations: string[]): string {
+  return [
+    `Error: Invalid arguments for tool "${toolName}" (the tool was not called):`,
+    ...violations.map(violation => `- ${violation}`),
+    'Fix the arguments and call the tool again.',
+  ].join('\n');
+}
+
+/**
+ * Describe a single schema violation in plain terms
+ */
+function describeError(error: ErrorObject): string {
+  const location = error.instancePath
+    ? `"${error.instancePath.substring(1).replace(/\//g, '.')}"`
+    : 'arguments';
+  const params = error.params as Record<string, any>;
+
+  switch (error.keyword) {
+    case 'required':
+      return error.instancePath
+        ? `${location} is missing required property "${params.missingProperty}"`
+        : `missing required property "${params.missingProperty}"`;
+    case 'additionalProperties':
+      return `${location} has unexpected property "${params.additionalProperty}"`;
+    case 'type':
+      return `${location} must be ${params.type}`;
+    case 'enum':
+      return `${location} must be one of: ${(params.allowedValues as unknown[]).map(v => JSON.stringify(v)).join(', ')}`;
+    default:
+      return `${location} ${error.message}`;
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Tool name pattern matching
+ * Simple glob patterns (only * wildcards, case-insensitive) used by tool policies and filters
+ */
+
+/**
+ * Convert a glob pattern to a regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Check whether a name matches any of the given patterns
+ */
+export function matchesAnyPattern(name: string, patterns: Array<string | RegExp>): boolean {
+  return patterns.some(pattern =>
+    (typeof pattern === 'string' ? globToRegExp(pattern) : pattern).test(name)
+  );
+}
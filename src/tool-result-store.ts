@@ -0,0 +1,362 @@
+/**
+ * Tool result size management
+ * Oversized tool results are stored out-of-band with the conversation; the model receives a
+ * truncated preview with a handle and pages through or queries the full result with read_tool_result
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { v4 as uuidv4 } from 'uuid';
+import { Conversation, AnthropicTool, StoredToolResult } from './types';
+import { globToRegExp } from './tool-patterns';
+
+/**
+ * Name of the built-in tool for reading stored results
+ */
+export const READ_TOOL_RESULT_TOOL = 'read_tool_result';
+
+/**
+ * Default characters returned per read_tool_result page
+ */
+const DEFAULT_PAGE_CHARS = 10000;
+
+/**
+ * Tool Result Budget
+ * Applies per-tool character budgets to tool results and serves reads of stored results
+ */
+export class ToolResultBudget {
+  private defaultMaxChars: number;
+  private toolBudgets: Array<{ pattern: RegExp; maxChars: number }>;
+  private previewChars: number;
+
+  /**
+   * @param defaultMaxChars - Budget for tools without a specific budget (0 disables budgets)
+   * @param toolBudgets - Budgets by tool name pattern (* wildcards); the first match wins
+   * @param previewChars - Characters of an oversized result shown to the model
+   */
+  constructor(defaultMaxChars: number, toolBudgets: Record<string, number> = {}, previewChars: number = 2000) {
+    this.defaultMaxChars = defaultMaxChars;
+    this.toolBudgets = Object.entries(toolBudgets).map(([pattern, maxChars]) => ({
+      pattern: globToRegExp(pattern),
+      maxChars,
+    }));
+    this.previewChars = previewChars;
+  }
+
+  /**
+   * Get the character budget for a tool (0 means unlimited)
+   */
+  getBudget(toolName: string): number {
+    return this.toolBudgets.find(budget => budget.pattern.test(toolName))?.maxChars ?? this.defaultMaxChars;
+  }
+
+  /**
+   * Return the content the model should see for a tool result
+   * Results over budget are stored with the conversation and replaced by a preview and a handle
+   */
+  apply(conversation: Conversation, toolUseId: string, toolName: string, content: string): string {
+    const budget = this.getBudget(toolName);
+    if (budget <= 0 || content.length <= budget) {
+      return content;
+    }
+
+    const handle = `tr_${uuidv4().replace(/-/g, '').substring(0, 8)}`;
+    const stored: StoredToolResult = {
+      handle,
+      toolName,
+      toolUseId,
+      content,
+      storedAt: new Date().toISOString(),
+    };
+    conversation.storedToolResults = [...(conversation.storedToolResults || []), stored];
+
+    const previewLength = Math.min(this.previewChars, budget);
+    return [
+      `[Result truncated: ${content.length} characters exceeds the ${budget} character budget for ${toolName}. ` +
+        `The full result is stored as "${handle}".]`,
+      'Preview:',
+      content.substring(0, previewLength),
+      '...',
+      `[Use ${READ_TOOL_RESULT_TOOL} with handle "${handle}" to read more (offset/limit) or to query the JSON with a path ` +
+        `such as "devices[*].name" or "devices[?(@.status=='offline')]".]`,
+    ].join('\n');
+  }
+
+  /**
+   * Execute read_tool_result against the conversation's stored results
+   */
+  read(conversation: Conversation, input: Record<string, unknown>): { content: string; isError: boolean } {
+    const handle = String(input.handle ?? '');
+    const stored = (conversation.storedToolResults || []).find(result => result.handle === handle);
+    if (!stored) {
+      const available = (conversation.storedToolResults || []).map(result => result.handle);
+      return {
+        content: `Error: No stored tool result "${handle}". Available handles: ${available.join(', ') || 'none'}`,
+        isError: true,
+      };
+    }
+
+    let text = stored.content;
+    if (input.path !== undefined && input.path !== '') {
+      try {
+        const matches = queryJsonPath(JSON.parse(stored.content), String(input.path));
+        text = JSON.stringify(matches, null, 2);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return { content: `Error querying "${handle}": ${errorMessage}`, isError: true };
+      }
+    }
+
+    // Pages never exceed the default budget, so reading cannot re-trigger truncation
+    const maxPage = this.defaultMaxChars > 0 ? this.defaultMaxChars : DEFAULT_PAGE_CHARS;
+    const offset = Math.max(Number(input.offset) || 0, 0);
+    const limit = Math.min(Math.max(Number(input.limit) || DEFAULT_PAGE_CHARS, 1), maxPage);
+    const end = Math.min(offset + limit, text.length);
+
+    const header = `[${handle}${input.path ? ` path ${input.path}` : ''}: characters ${offset}-${end} of ${text.length}` +
+      (end < text.length ? `; continue with offset ${end}` : '') + ']';
+
+    return { content: `${header}\n${text.substring(offset, end)}`, isError: false };
+  }
+
+  /**
+   * Forget stored results whose tool call is no longer in the conversation history
+   */
+  pruneStoredResults(conversation: Conversation): void {
+    if (!conversation.storedToolResults || conversation.storedToolResults.length === 0) {
+      return;
+    }
+
+    const toolUseIds = new Set<string>();
+    for (const message of conversation.messages) {
+      if (Array.isArray(message.content)) {
+        for (const block of message.content) {
+          if (block.type === 'tool_result') {
+            toolUseIds.add(block.tool_use_id);
+          }
+        }
+      }
+    }
+
+    conversation.storedToolResults = conversation.storedToolResults.filter(result => toolUseIds.has(result.toolUseId));
+  }
+
+  /**
+   * Tool definition for read_tool_result (offered while the conversation has stored results)
+   */
+  getToolDefinition(): AnthropicTool {
+    return {
+      name: READ_TOOL_RESULT_TOOL,
+      description: 'Read a large tool result that was truncated and stored under a handle. ' +
+        'Page through it with offset/limit (characters), or pass a JSON path to extract matching values ' +
+        '(supports .key, [index], [*] and filters like [?(@.status==\'offline\')]).',
+      input_schema: {
+        type: 'object',
+        properties: {
+          handle: { type: 'string', description: 'Handle of the stored result (e.g. "tr_1a2b3c4d")' },
+          path: { type: 'string', description: 'Optional JSON path, e.g. "devices[*].name" or "$.items[?(@.count>10)]"' },
+          offset: { type: 'number', description: 'Character offset to start reading from (default 0)' },
+          limit: { type: 'number', description: `Maximum characters to return (default ${DEFAULT_PAGE_CHARS})` },
+        },
+        required: ['handle'],
+      },
+    };
+  }
+}
+
+/**
+ * Find the full content of an earlier tool result by tool_use id or stored result handle
+ * Stored (oversized) results return the full content, not the preview the model saw
+ */
+export function findToolResultContent(conversation: Conversation, reference: string): string | undefined {
+  const stored = (conversation.storedToolResults || [])
+    .find(result => result.handle === reference || result.toolUseId === reference);
+  if (stored) {
+    return stored.content;
+  }
+
+  for (const message of conversation.messages) {
+    if (!Array.isArray(message.content)) {
+      continue;
+    }
+    for (const block of message.content) {
+      if (block.type === 'tool_result' && block.tool_use_id === reference) {
+        return toolResultText(block);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Text of a tool_result block (image parts have no text)
+ */
+function toolResultText(block: Anthropic.ToolResultBlockParam): string {
+  if (typeof block.content === 'string') {
+    return block.content;
+  }
+  return (block.content || []).map(item => (item.type === 'text' ? item.text : '')).join('\n');
+}
+
+/**
+ * A step of a parsed JSON path
+ */
+type PathSegment =
+  | { kind: 'key'; key: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'filter'; field: string[]; op: string; value: unknown };
+
+/**
+ * Evaluate a JSON path against a value and return every match
+ * Supports $, .key, ['key'], [index] (negative from the end), [*], .* and [?(@.field op literal)]
+ */
+export function queryJsonPath(root: unknown, path: string): unknown[] {
+  let current: unknown[] = [root];
+
+  for (const segment of parseJsonPath(path)) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      if (segment.kind === 'key') {
+        if (value !== null && typeof value === 'object' && !Array.isArray(value) && segment.key in value) {
+          next.push((value as Record<string, unknown>)[segment.key]);
+        }
+      } else if (segment.kind === 'index') {
+        if (Array.isArray(value)) {
+          const index = segment.index < 0 ? value.length + segment.index : segment.index;
+          if (index >= 0 && index < value.length) {
+            next.push(value[index]);
+          }
+        }
+      } else if (value !== null && typeof value === 'object') {
+        const children = Array.isArray(value) ? value : Object.values(value);
+        next.push(...(segment.kind === 'wildcard'
+          ? children
+          : children.filter(child => compare(readField(child, segment.field), segment.op, segment.value))));
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Parse a JSON path into segments
+ */
+function parseJsonPath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let i = path.startsWith('$') ? 1 : 0;
+
+  const readIdentifier = (): string => {
+    const match = /^[A-Za-z0-9_-]+/.exec(path.substring(i));
+    if (!match) {
+      throw new Error(`Invalid path "${path}" at position ${i}`);
+    }
+    i += match[0].length;
+    return match[0];
+  };
+
+  while (i < path.length) {
+    const char = path[i];
+
+    if (char === '.') {
+      i++;
+      if (path[i] === '*') {
+        i++;
+        segments.push({ kind: 'wildcard' });
+      } else {
+        segments.push({ kind: 'key', key: readIdentifier() });
+      }
+    } else if (char === '[') {
+      const close = path.indexOf(']', path.startsWith('[?(', i) ? path.indexOf(')', i) : i);
+      if (close === -1) {
+        throw new Error(`Invalid path "${path}": unclosed "["`);
+      }
+      segments.push(parseBracket(path.substring(i + 1, close), path));
+      i = close + 1;
+    } else if (segments.length === 0) {
+      // Leading key without a dot, e.g. "devices[*]"
+      segments.push({ kind: 'key', key: readIdentifier() });
+    } else {
+      throw new Error(`Invalid path "${path}" at position ${i}`);
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Parse the contents of a [...] path segment
+ */
+function parseBracket(inner: string, path: string): PathSegment {
+  const trimmed = inner.trim();
+
+  if (trimmed === '*') {
+    return { kind: 'wildcard' };
+  }
+  if (/^-?\d+$/.test(trimmed)) {
+    return { kind: 'index', index: parseInt(trimmed, 10) };
+  }
+  if (/^(['"]).*\1$/.test(trimmed)) {
+    return { kind: 'key', key: trimmed.slice(1, -1) };
+  }
+
+  const filter = /^\?\(\s*@((?:\.[A-Za-z0-9_-]+)*)\s*(==|!=|>=|<=|>|<)\s*(.+?)\s*\)$/.exec(trimmed);
+  if (filter) {
+    return {
+      kind: 'filter',
+      field: filter[1].split('.').filter(Boolean),
+      op: filter[2],
+      value: parseLiteral(filter[3], path),
+    };
+  }
+
+  throw new Error(`Invalid path "${path}": unsupported segment [${inner}]`);
+}
+
+/**
+ * Parse a filter literal (quoted string, number, true, false or null)
+ */
+function parseLiteral(literal: string, path: string): unknown {
+  if (/^(['"]).*\1$/.test(literal)) {
+    return literal.slice(1, -1);
+  }
+  if (literal === 'true' || literal === 'false' || literal === 'null') {
+    return JSON.parse(literal);
+  }
+  if (!Number.isNaN(Number(literal))) {
+    return Number(literal);
+  }
+  throw new Error(`Invalid path "${path}": unsupported filter value ${literal}`);
+}
+
+/**
+ * Read a nested field of a value
+ */
+function readField(value: unknown, field: string[]): unknown {
+  return field.reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+}
+
+/**
+ * Compare a field value with a filter literal
+ */
+function compare(actual: unknown, op: string, expected: unknown): boolean {
+  switch (op) {
+    case '==':
+      return actual === expected;
+    case '!=':
+      return actual !== expected;
+    default: {
+      if (typeof actual !== typeof expected || (typeof actual !== 'number' && typeof actual !== 'string')) {
+        return false;
+      }
+      const a = actual as number | string;
+      const b = expected as number | string;
+      return op === '>' ? a > b : op === '<' ? a < b : op === '>=' ? a >= b : a <= b;
+    }
+  }
+}
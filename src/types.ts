@@ -26,7 +26,126 @@ export interface ChatRequest {
   complexity?: ComplexityLevel;
   userId?: string;
   drmApiKeys?: DrmApiKeys;
+  credentials?: Record<string, string>;  // Per-service credentials (e.g. { statusgator: "..." })
   messages?: Array<{ role: 'user' | 'assistant'; content: string }>;
+  budget?: RequestBudget;  // Overrides the configured default budget for the complexity level
+  tier?: ModelTierName;    // Model tier to use instead of the complexity level's tier (e.g. "VISION")
+}
+
+/**
+ * Spending limits for a single request (all optional)
+ */
+export interface RequestBudget {
+  maxInputTokens?: number;   // Input tokens including cache writes and reads
+  maxOutputTokens?: number;
+  maxTotalTokens?: number;
+  maxCostUsd?: number;       // Estimated from the model price table
+}
+
+/**
+ * What a request used against its budget
+ */
+export interface BudgetReport {
+  limits: RequestBudget;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd?: number;                       // Undefined if the model has no known price
+  exceeded: Array<keyof RequestBudget>;  // Limits that were reached
+}
+
+/**
+ * Dollar cost of one or more model calls
+ */
+export interface CostBreakdown {
+  inputUsd: number;
+  outputUsd: number;
+  cacheWriteUsd: number;
+  cacheReadUsd: number;
+  totalUsd: number;
+}
+
+/**
+ * Cost of a request (total plus one breakdown per iteration)
+ */
+export interface CostReport extends CostBreakdown {
+  model: string;  // Model of the final iteration
+  iterations: Array<CostBreakdown & { model: string }>;
+}
+
+/**
+ * Accumulated usage and cost for a user, a conversation or the whole service
+ */
+export interface CostTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
+  unpricedRequests: number;  // Requests served by a model without a known price (not in costUsd)
+  lastRequestAt?: string;
+}
+
+/**
+ * Response body of GET /costs
+ */
+export interface CostSummaryResponse {
+  since: string;  // First recorded request (memory store: start of this task)
+  total: CostTotals;
+  users: Record<string, CostTotals>;
+  conversations: Record<string, CostTotals & { userId?: string }>;
+}
+
+/**
+ * HTTP API Request body for /chat/:conversationId/approve and /reject endpoints
+ */
+export interface ApprovalRequest {
+  approvalId: string;
+  reason?: string;  // Optional explanation passed to the model on rejection
+  userId?: string;
+  drmApiKeys?: DrmApiKeys;
+  credentials?: Record<string, string>;
+}
+
+/**
+ * HTTP API Request body for the /resources/read endpoint
+ */
+export interface ResourceReadRequest {
+  server: string;
+  uri: string;
+  userId?: string;
+  drmApiKeys?: DrmApiKeys;
+  credentials?: Record<string, string>;
+}
+
+/**
+ * HTTP API Request body for the /prompts/:server/:name endpoint
+ */
+export interface PromptRenderRequest {
+  arguments?: Record<string, string>;
+  userId?: string;
+  drmApiKeys?: DrmApiKeys;
+  credentials?: Record<string, string>;
+}
+
+/**
+ * Tool call awaiting user approval (returned to the client)
+ */
+export interface PendingToolCall {
+  toolUseId: string;
+  toolName: string;
+  server?: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Approval request returned when the agentic loop pauses on a gated tool
+ */
+export interface PendingApproval {
+  approvalId: string;
+  conversationId: string;
+  tools: PendingToolCall[];
+  requestedAt: string;
 }
 
 /**
@@ -55,6 +174,22 @@ export interface ChatResponse {
   iterations?: number;
   toolCallDetails?: ToolCallDetail[];
   reasoningSteps?: ReasoningStep[];
+  pendingApproval?: PendingApproval;
+  accuracyIssues?: AccuracyIssue[];  // Numeric claims that do not match the tool results
+  accuracyCorrected?: boolean;       // The model was asked to correct its first answer
+  truncated?: boolean;               // The answer was still cut off by max_tokens after continuation
+  budgetExceeded?: BudgetReport;     // The request hit its budget; the answer may be incomplete
+  cost?: CostReport;                 // Undefined if a model has no known price
+  servedBy?: Array<ModelServedBy & { iteration: number }>;  // Provider and model per model call
+}
+
+/**
+ * Numeric claim in a response that does not match the tool results of the turn
+ */
+export interface AccuracyIssue {
+  type: 'percentage_mismatch' | 'invalid_ratio' | 'unsupported_count';
+  claim: string;    // The claim as written in the response
+  message: string;  // What is wrong (also sent to the model when correcting)
 }
 
 /**
@@ -76,6 +211,15 @@ export interface HealthResponse {
   };
   uptime: number;
   timestamp: string;
+  mcp_server_details?: {
+    [serverName: string]: {
+      transport?: string;
+      lastConnectedAt?: string;
+      consecutiveFailures: number;
+      lastError?: string;
+    };
+  };
+  tool_validation_failures?: { [toolName: string]: number };  // Tool calls rejected for invalid arguments
   message?: string;  // Optional message for unhealthy status
   task_definition?: string;  // ECS task definition version (for debugging)
 }
@@ -90,6 +234,52 @@ export interface ModelConfig {
     type: 'enabled' | 'disabled';
     budget_tokens?: number;
   };
+  temperature?: number;
+  top_p?: number;
+  stop_sequences?: string[];
+}
+
+/**
+ * Name of a model tier: a complexity level or an additional configured tier
+ */
+export type ModelTierName = ComplexityLevel | (string & {});
+
+/**
+ * Provider, model and inference settings of a model tier (MODEL_TIERS / MODEL_TIERS_FILE)
+ */
+export interface ModelTier {
+  provider?: ModelProvider;   // Defaults to the configured provider (USE_BEDROCK)
+  model: string;
+  maxTokens: number;
+  maxOutputTokens?: number;   // Output limit of the model (defaults to the known limit of the model ID)
+  thinkingBudget?: number;    // Extended thinking budget in tokens (omitted or 0 disables thinking)
+  temperature?: number;
+  topP?: number;
+  stopSequences?: string[];
+}
+
+/**
+ * Model providers an AIClient can call
+ */
+export type ModelProvider = 'anthropic' | 'bedrock';
+
+/**
+ * One entry of a model fallback chain
+ */
+export interface ModelTarget {
+  provider: ModelProvider;
+  model: string;         // Anthropic model ID or Bedrock model ID
+  maxTokens?: number;    // Overrides max_tokens of the complexity level (e.g. for Nova limits)
+  timeoutMs?: number;    // Fail over if the target has not responded (or started streaming) in time
+}
+
+/**
+ * Provider and model that produced one model response
+ */
+export interface ModelServedBy {
+  provider: ModelProvider;
+  model: string;
+  failedOver: boolean;  // Served by a fallback target because earlier targets failed
 }
 
 /**
@@ -102,7 +292,7 @@ export interface ModelConfigMap {
 }
 
 /**
- * Conversation history stored in memory
+ * Conversation history (persisted through a ConversationStore)
  */
 export interface Conversation {
   id: string;
@@ -110,6 +300,49 @@ export interface Conversation {
   createdAt: Date;
   lastAccessedAt: Date;
   model?: string;
+  summary?: string;  // Running summary of evicted turns (pinned at the front of messages)
+  pendingApproval?: PendingApprovalState;
+  loadedToolCategories?: string[];  // MCP tool categories loaded by this conversation ("server:category")
+  storedToolResults?: StoredToolResult[];  // Oversized tool results, readable via read_tool_result
+}
+
+/**
+ * Tool result too large for the context window, stored with the conversation
+ */
+export interface StoredToolResult {
+  handle: string;      // Handle the model uses with read_tool_result
+  toolName: string;
+  toolUseId: string;
+  content: string;
+  storedAt: string;
+}
+
+/**
+ * Paused agentic loop state, stored with the conversation until the user approves or rejects
+ */
+export interface PendingApprovalState {
+  approvalId: string;
+  complexity: ComplexityLevel;
+  tier?: ModelTierName;  // Model tier requested instead of the complexity level's tier
+  iteration: number;
+  toolUses: Array<{ id: string; name: string; input: Record<string, unknown> }>;
+  gatedToolUseIds: string[];
+  requestedAt: string;
+  budget?: RequestBudget;  // Budget of the paused request (caller override included), applied on resume
+  usage?: UsageStats[];    // Model calls made before the pause, counted in the resumed response and budget
+  servedBy?: Array<ModelServedBy & { iteration: number }>;  // Targets of those calls, one entry per call
+  toolCallDetails?: ToolCallDetail[];  // Tools run before the pause (response details and accuracy check)
+  reasoningSteps?: ReasoningStep[];    // Reasoning steps before the pause
+  userMessage?: string;  // Message the paused request answers (its numbers pass the accuracy check)
+}
+
+/**
+ * Conversation store backend selection
+ */
+export interface ConversationStoreConfig {
+  type: 'memory' | 'sqlite' | 'redis';
+  sqlitePath?: string;  // Database file for the sqlite backend
+  redisUrl?: string;    // redis:// or rediss:// URL for the redis backend
 }
 
 /**
@@ -124,6 +357,12 @@ export interface MCPTool {
     required?: string[];
     [key: string]: unknown;
   };
+  remoteName?: string;  // Name on the MCP server when a tool prefix is configured
+  annotations?: {
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+    [key: string]: unknown;
+  };
 }
 
 /**
@@ -143,12 +382,53 @@ export interface AnthropicTool {
   };
 }
 
+/**
+ * User context value that can be injected into MCP tool calls
+ * "credentials.<name>" reads a per-service key from the request's credentials map
+ */
+export type CredentialSource =
+  | 'userId'
+  | 'drmApiKeys.apiKeyId'
+  | 'drmApiKeys.apiKeySecret'
+  | `credentials.${string}`;
+
+/**
+ * Credential injection rule: delivers a user context value with each tool call for a server
+ * Exactly one of argument, header or meta selects how it is delivered
+ * Rules are applied as a set - if any rule without a default has no value, none are injected
+ */
+export interface MCPCredentialRule {
+  source: CredentialSource;
+  argument?: string;  // Hidden tool argument (e.g. _dani_drm_api_key_id)
+  header?: string;    // HTTP header on the transport request (e.g. X-StatusGator-Key)
+  meta?: string;      // MCP _meta field on the tools/call request
+  default?: string;   // Value used when the source is missing
+}
+
+/**
+ * Transport used to reach an MCP server
+ */
+export type MCPTransportType = 'streamable-http' | 'sse' | 'stdio';
+
 /**
  * MCP Server configuration
+ * HTTP transports (streamable-http, sse) need a url; stdio servers need a command
  */
 export interface MCPServerConfig {
   name: string;
-  url: string;
+  url?: string;
+  transport?: MCPTransportType;      // Defaults to streamable-http
+  command?: string;                  // stdio: executable to spawn
+  args?: string[];                   // stdio: command arguments
+  env?: Record<string, string>;      // stdio: extra environment variables for the process
+  cwd?: string;                      // stdio: working directory for the process
+  headers?: Record<string, string>;  // Extra HTTP headers sent on every request
+  timeoutMs?: number;                // Tool call timeout
+  connectTimeoutMs?: number;         // Timeout for connecting and listing tools
+  allowTools?: string[];             // Only expose tools matching these patterns (* wildcards)
+  denyTools?: string[];              // Never expose tools matching these patterns
+  toolPrefix?: string;               // Prefix added to tool names shown to the model
+  credentials?: MCPCredentialRule[];
 }
 
 /**
@@ -156,9 +436,56 @@ export interface MCPServerConfig {
  */
 export interface MCPServerStatus {
   name: string;
+  transport?: MCPTransportType;
   connected: boolean;
   tools: MCPTool[];
-  error?: string;
+  resources?: MCPResource[];     // Present when the server supports resources
+  prompts?: MCPPrompt[];         // Present when the server supports prompts
+  error?: string;                // Current error (cleared once connected)
+  lastConnectedAt?: string;      // ISO timestamp of the last successful connection
+  consecutiveFailures?: number;  // Failed connection attempts / lost connections since last success
+  lastError?: string;            // Most recent error, kept after recovery for debugging
+}
+
+/**
+ * Resource exposed by an MCP server (device inventories, runbooks, ...)
+ */
+export interface MCPResource {
+  server: string;
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Prompt template exposed by an MCP server (canned diagnostic workflows, ...)
+ */
+export interface MCPPrompt {
+  server: string;
+  name: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+/**
+ * Prompt rendered by its MCP server, flattened to text messages
+ */
+export interface RenderedPrompt {
+  server: string;
+  name: string;
+  description?: string;
+  messages: Array<{ role: 'user' | 'assistant'; text: string }>;
+}
+
+/**
+ * Contents of a resource read from an MCP server
+ */
+export interface ResourceContents {
+  server: string;
+  uri: string;
+  mimeType?: string;
+  text: string;  // Text contents; binary contents are described rather than included
 }
 
 /**
@@ -219,8 +546,53 @@ export interface AgentResponse {
   iterations?: number;
   toolCallDetails?: ToolCallDetail[];
   reasoningSteps?: ReasoningStep[];
+  pendingApproval?: PendingApproval;
+  accuracyIssues?: AccuracyIssue[];
+  accuracyCorrected?: boolean;
+  truncated?: boolean;
+  budgetExceeded?: BudgetReport;
+  cost?: CostReport;
+  servedBy?: Array<ModelServedBy & { iteration: number }>;
 }
 
+/**
+ * How a response cut off by max_tokens is recovered:
+ * 'continue' asks the model to continue the answer, 'retry' repeats the call with a larger max_tokens
+ * (the streamed output of the cut-off attempt is replaced)
+ */
+export type TruncationRecovery = 'continue' | 'retry';
+
+/**
+ * Whether the model may call the tools it is given ('none' still sends the definitions, which the
+ * tool calls in history need, but asks for a text answer)
+ */
+export type ModelToolChoice = 'auto' | 'none';
+
+/**
+ * Incremental event emitted by an AI client while a response is streaming
+ */
+export type ModelStreamEvent =
+  | { type: 'text_delta'; text: string }
+  | { type: 'thinking_delta'; thinking: string };
+
+/**
+ * Event emitted by the agentic loop while a message is being processed
+ * (sent to clients of the /chat/stream endpoint as Server-Sent Events)
+ */
+export type AgentStreamEvent =
+  | { type: 'text_delta'; iteration: number; text: string }
+  | { type: 'thinking_delta'; iteration: number; thinking: string }
+  | { type: 'tool_start'; iteration: number; toolUseId: string; toolName: string; input: Record<string, unknown> }
+  | { type: 'tool_finish'; iteration: number; toolUseId: string; detail: ToolCallDetail }
+  | { type: 'usage'; iteration: number; usage: UsageStats }
+  | { type: 'correction'; iteration: number; issues: AccuracyIssue[] }  // Streamed answer is being replaced
+  | { type: 'truncated'; iteration: number; recovery: TruncationRecovery };  // Output hit max_tokens
+
+/**
+ * Listener for agentic loop events
+ */
+export type AgentEventListener = (event: AgentStreamEvent) => void;
+
 /**
  * Logger interface
  */
@@ -250,5 +622,25 @@ export interface AppConfig {
   systemMessage: string;
   conversationTimeoutMinutes: number;
   maxConversationMessages?: number;  // Maximum messages to keep in history (reduces token usage)
+  maxConversationTokens?: number;    // Estimated token budget for history (tool pairs are trimmed together)
+  summarizeEvictedHistory?: boolean; // Fold trimmed turns into a running summary instead of dropping them
+  approvalRequiredTools?: string[];  // Tool name patterns (* wildcards) that need user approval
+  approvalForDestructiveTools?: boolean; // Also gate tools annotated with destructiveHint
+  mcpHealthCheckIntervalSeconds?: number; // Liveness ping interval for connected MCP servers (0 disables)
+  mcpReconnectMaxDelaySeconds?: number;   // Cap for exponential reconnect backoff
+  toolResultMaxChars?: number;            // Default tool result budget; larger results are stored out-of-band (0 disables)
+  toolResultBudgets?: Record<string, number>; // Per-tool budgets by name pattern (* wildcards)
+  toolResultPreviewChars?: number;        // Characters of an oversized result shown to the model
+  accuracyValidation?: boolean;           // Cross-check numeric claims in answers against tool results
+  accuracyCorrection?: boolean;           // Ask the model once to correct answers with accuracy issues
+  requestBudgets?: Partial<Record<ComplexityLevel, RequestBudget>>;  // Default budget per complexity level
+  modelFallbacks?: Partial<Record<ComplexityLevel, ModelTarget[]>>;  // Ordered model targets per complexity level
+  modelTimeoutMs?: number;                // Default timeout of a fallback target
+  interleavedThinking?: boolean;          // Let Claude think between tool calls when thinking is enabled
+  maxContinuations?: number;              // Follow-up calls for a response cut off by max_tokens (0 disables)
+  maxTokensCeiling?: number;              // Largest max_tokens used when retrying a cut-off tool call
+  modelTiers?: Record<string, ModelTier>; // Validated tiers (built-in defaults plus MODEL_TIERS / MODEL_TIERS_FILE)
+  modelTiersFile?: string;                // Tier file watched for changes
+  conversationStore?: ConversationStoreConfig;
   cacheTTL?: '5m' | '1h';
 }
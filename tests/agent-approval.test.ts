@@ -0,0 +1,81 @@
+import { DANIAgent } from '../src/agent';
+import { ApprovalError } from '../src/tool-approval';
+import { AppConfig } from '../src/types';
+import { RecordedCall, fakeMcpManager, modelMessage, scriptedClient, silentLogger } from './helpers/fakes';
+
+const config = { approvalRequiredTools: ['reboot_device'] } as unknown as AppConfig;
+
+const agents: DANIAgent[] = [];
+
+afterEach(async () => {
+  // Stops the conversation cleanup timer
+  await Promise.all(agents.splice(0).map(agent => agent.shutdown()));
+});
+
+/**
+ * Agent whose model lists devices, then asks to reboot one, then answers
+ */
+function createAgent(executed: string[], calls: RecordedCall[]): DANIAgent {
+  const client = scriptedClient([
+    modelMessage([{ type: 'tool_use', id: 'toolu_list', name: 'list_devices', input: {} }]),
+    modelMessage([{ type: 'tool_use', id: 'toolu_reboot', name: 'reboot_device', input: { device_id: 'd1' } }]),
+    modelMessage([{ type: 'text', text: 'Rebooted 1 of 3 devices.' }]),
+  ], calls);
+  const mcp = fakeMcpManager(['list_devices', 'reboot_device'], name =>
+    name === 'list_devices' ? '{"devices":[{"id":"d1"},{"id":"d2"},{"id":"d3"}]}' : '{"rebooted":true}', executed);
+
+  const agent = new DANIAgent(client, mcp, config, silentLogger);
+  agents.push(agent);
+  return agent;
+}
+
+describe('tool approval', () => {
+  it('pauses before a gated tool and runs it once approved', async () => {
+    const executed: string[] = [];
+    const calls: RecordedCall[] = [];
+    const agent = createAgent(executed, calls);
+
+    const paused = await agent.processMessage('Reboot d1', 'conv-1', 'SIMPLE');
+    expect(paused.pendingApproval?.tools.map(tool => tool.toolName)).toEqual(['reboot_device']);
+    expect(executed).toEqual(['list_devices']);
+
+    const resumed = await agent.resolveApproval('conv-1', paused.pendingApproval!.approvalId, true);
+    expect(executed).toEqual(['list_devices', 'reboot_device']);
+    expect(resumed.response).toBe('Rebooted 1 of 3 devices.');
+    expect(resumed.accuracyIssues ?? []).toEqual([]);
+
+    // The resumed response covers the tools and model calls made before the pause
+    expect(resumed.toolCallDetails?.map(detail => detail.toolName)).toEqual(['list_devices', 'reboot_device']);
+    expect(resumed.usageBreakdown).toHaveLength(3);
+    expect(resumed.usage.output_tokens).toBe(30);
+  });
+
+  it('rejects a second resolution of the same approval with 409', async () => {
+    const agent = createAgent([], []);
+    const paused = await agent.processMessage('Reboot d1', 'conv-1', 'SIMPLE');
+    await agent.resolveApproval('conv-1', paused.pendingApproval!.approvalId, true);
+
+    await expect(agent.resolveApproval('conv-1', paused.pendingApproval!.approvalId, true))
+      .rejects.toMatchObject({ name: 'ApprovalError', statusCode: 409 });
+  });
+
+  it('reports rejected tools to the model as refused without running them', async () => {
+    const executed: string[] = [];
+    const calls: RecordedCall[] = [];
+    const agent = createAgent(executed, calls);
+    const paused = await agent.processMessage('Reboot d1', 'conv-1', 'SIMPLE');
+
+    await agent.resolveApproval('conv-1', paused.pendingApproval!.approvalId, false, undefined, 'maintenance window');
+    expect(executed).toEqual(['list_devices']);
+
+    const lastTurn = calls[calls.length - 1].messages.slice(-1)[0];
+    expect(JSON.stringify(lastTurn.content)).toContain('maintenance window');
+  });
+
+  it('returns 404 for an unknown conversation', async () => {
+    const agent = createAgent([], []);
+    const error = await agent.resolveApproval('missing', 'approval', true).catch(caught => caught);
+    expect(error).toBeInstanceOf(ApprovalError);
+    expect(error.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,36 @@
+import { evaluateExpression } from '../src/arithmetic';
+import { calculateTool } from '../src/local-tools';
+
+describe('evaluateExpression', () => {
+  it('applies operator precedence and parentheses', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+    expect(evaluateExpression('(2 + 3) * 4')).toBe(20);
+    expect(evaluateExpression('10 - 4 - 3')).toBe(3);
+    expect(evaluateExpression('17 % 5')).toBe(2);
+    expect(evaluateExpression('-2 ^ 2')).toBe(-4);
+    expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512);
+  });
+
+  it('supports the percentage and rounding functions', () => {
+    expect(evaluateExpression('round(percent(12, 77), 1)')).toBe(15.6);
+    expect(evaluateExpression('max(3, 9, 4) + min(1, 2)')).toBe(10);
+    expect(evaluateExpression('sqrt(16) + abs(-1)')).toBe(5);
+  });
+
+  it('rejects invalid expressions', () => {
+    expect(() => evaluateExpression('')).toThrow('Empty expression');
+    expect(() => evaluateExpression('1 / 0')).toThrow('Division by zero');
+    expect(() => evaluateExpression('percent(1, 0)')).toThrow('Division by zero');
+    expect(() => evaluateExpression('2 +')).toThrow('Unexpected end of expression');
+    expect(() => evaluateExpression('(1 + 2')).toThrow('Expected ")"');
+    expect(() => evaluateExpression('foo(1)')).toThrow('Unknown function "foo"');
+    expect(() => evaluateExpression('process.exit()')).toThrow();
+  });
+});
+
+describe('calculate tool', () => {
+  it('returns the expression and its result', () => {
+    const result = calculateTool.execute({ expression: '62 + 3' }, {});
+    expect(result).toEqual({ content: JSON.stringify({ expression: '62 + 3', result: 65 }), isError: false });
+  });
+});
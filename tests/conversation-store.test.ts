@@ -0,0 +1,99 @@
+import { ConversationStore, InMemoryConversationStore, SqliteConversationStore } from '../src/conversation-store';
+import { Conversation, CostTotals } from '../src/types';
+
+function conversation(id: string, lastAccessedAt: Date, approvalId?: string): Conversation {
+  return {
+    id,
+    messages: [{ role: 'user', content: `hello from ${id}` }],
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    lastAccessedAt,
+    ...(approvalId
+      ? {
+          pendingApproval: {
+            approvalId,
+            complexity: 'SIMPLE',
+            iteration: 1,
+            toolUses: [{ id: 'toolu_1', name: 'reboot_device', input: { device_id: 'd1' } }],
+            gatedToolUseIds: ['toolu_1'],
+            requestedAt: '2025-01-01T00:00:00.000Z',
+          },
+        }
+      : {}),
+  } as Conversation;
+}
+
+function costDelta(costUsd: number, lastRequestAt: string): CostTotals {
+  return {
+    requests: 1,
+    inputTokens: 100,
+    outputTokens: 20,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 50,
+    costUsd,
+    unpricedRequests: 0,
+    lastRequestAt,
+  };
+}
+
+const backends: Array<[string, () => ConversationStore]> = [
+  ['memory', () => new InMemoryConversationStore()],
+  ['sqlite', () => new SqliteConversationStore(':memory:')],
+];
+
+describe.each(backends)('%s conversation store', (_name, createStore) => {
+  let store: ConversationStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('saves and loads a conversation with its dates', async () => {
+    const saved = conversation('c1', new Date('2025-01-02T00:00:00.000Z'));
+    await store.save(saved);
+
+    const loaded = await store.get('c1');
+    expect(loaded?.messages).toEqual(saved.messages);
+    expect(loaded?.lastAccessedAt).toBeInstanceOf(Date);
+    expect(loaded?.lastAccessedAt.toISOString()).toBe('2025-01-02T00:00:00.000Z');
+    expect(await store.get('missing')).toBeUndefined();
+  });
+
+  it('deletes conversations last accessed before the cutoff', async () => {
+    await store.save(conversation('old', new Date('2025-01-01T00:00:00.000Z')));
+    await store.save(conversation('new', new Date('2025-01-03T00:00:00.000Z')));
+
+    expect(await store.deleteOlderThan(new Date('2025-01-02T00:00:00.000Z'))).toEqual(['old']);
+    expect(await store.count()).toBe(1);
+
+    await store.delete('new');
+    expect(await store.count()).toBe(0);
+  });
+
+  it('lets only one caller claim a pending approval', async () => {
+    await store.save(conversation('c1', new Date(), 'approval-1'));
+
+    expect(await store.claimPendingApproval('c1', 'other-approval')).toBe(false);
+    const claims = await Promise.all([
+      store.claimPendingApproval('c1', 'approval-1'),
+      store.claimPendingApproval('c1', 'approval-1'),
+    ]);
+    expect(claims.filter(Boolean)).toHaveLength(1);
+    expect((await store.get('c1'))?.pendingApproval).toBeUndefined();
+  });
+
+  it('adds up cost totals per user and conversation', async () => {
+    await store.recordCost('c1', 'user-1', costDelta(0.1, '2025-01-01T10:00:00.000Z'));
+    await store.recordCost('c1', 'user-1', costDelta(0.2, '2025-01-01T11:00:00.000Z'));
+    await store.recordCost('c2', 'user-2', { ...costDelta(0, '2025-01-01T12:00:00.000Z'), unpricedRequests: 1 });
+
+    const totals = await store.getCostTotals();
+    expect(totals.total).toMatchObject({ requests: 3, inputTokens: 300, costUsd: 0.3, unpricedRequests: 1 });
+    expect(totals.total.lastRequestAt).toBe('2025-01-01T12:00:00.000Z');
+    expect(totals.users['user-1']).toMatchObject({ requests: 2, costUsd: 0.3 });
+    expect(totals.conversations.c2).toMatchObject({ requests: 1, userId: 'user-2', unpricedRequests: 1 });
+  });
+});
@@ -0,0 +1,104 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { AIClient } from '../src/ai-client.interface';
+import { FallbackAIClient, isFailoverError } from '../src/fallback-ai-client';
+import { modelMessage, scriptedClient, silentLogger } from './helpers/fakes';
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+/**
+ * Client whose calls fail with the given error, or never answer until aborted
+ */
+function failingClient(error?: Error): AIClient {
+  const fail = (signal?: AbortSignal): Promise<Anthropic.Message> => new Promise((_resolve, reject) => {
+    if (error) {
+      reject(error);
+    } else {
+      signal?.addEventListener('abort', () => reject(new Error('aborted')), { once: true });
+    }
+  });
+
+  return {
+    ...scriptedClient([]),
+    sendMessage: (_messages, _tools, _tier, signal) => fail(signal),
+    streamMessage: (_messages, _tools, _tier, _onEvent, signal) => fail(signal),
+  };
+}
+
+describe('isFailoverError', () => {
+  it('fails over on throttling, overload and server errors only', () => {
+    expect(isFailoverError(httpError(429))).toBe(true);
+    expect(isFailoverError(httpError(529))).toBe(true);
+    expect(isFailoverError(httpError(400))).toBe(false);
+    expect(isFailoverError(Object.assign(new Error('throttled'), { name: 'ThrottlingException' }))).toBe(true);
+    expect(isFailoverError(new Error('bad input'))).toBe(false);
+  });
+});
+
+describe('FallbackAIClient', () => {
+  const messages: Anthropic.MessageParam[] = [{ role: 'user', content: 'hello' }];
+
+  it('moves on to the next target when a target is overloaded', async () => {
+    const backup = scriptedClient([modelMessage([{ type: 'text', text: 'hi' }], 'end_turn', 5, 'amazon.nova-pro-v1:0')]);
+    const client = new FallbackAIClient({
+      SIMPLE: [
+        { target: { provider: 'anthropic', model: 'claude-haiku-4-5-20251001' }, client: failingClient(httpError(529)) },
+        { target: { provider: 'bedrock', model: 'amazon.nova-pro-v1:0' }, client: backup },
+      ],
+    }, scriptedClient([]), silentLogger);
+
+    const response = await client.sendMessage(messages, [], 'SIMPLE');
+    expect(client.extractServedBy(response)).toEqual({
+      provider: 'bedrock',
+      model: 'amazon.nova-pro-v1:0',
+      failedOver: true,
+    });
+  });
+
+  it('moves on when a target does not answer within its timeout', async () => {
+    const client = new FallbackAIClient({
+      SIMPLE: [
+        { target: { provider: 'anthropic', model: 'slow-model', timeoutMs: 20 }, client: failingClient() },
+        { target: { provider: 'anthropic', model: 'fast-model' }, client: scriptedClient([modelMessage([])]) },
+      ],
+    }, scriptedClient([]), silentLogger);
+
+    const response = await client.sendMessage(messages, [], 'SIMPLE');
+    expect(client.extractServedBy(response).failedOver).toBe(true);
+  });
+
+  it('does not retry request errors on other targets', async () => {
+    const backup = scriptedClient([modelMessage([])]);
+    const client = new FallbackAIClient({
+      SIMPLE: [
+        { target: { provider: 'anthropic', model: 'claude-haiku-4-5-20251001' }, client: failingClient(httpError(400)) },
+        { target: { provider: 'bedrock', model: 'amazon.nova-pro-v1:0' }, client: backup },
+      ],
+    }, scriptedClient([]), silentLogger);
+
+    await expect(client.sendMessage(messages, [], 'SIMPLE')).rejects.toThrow('HTTP 400');
+  });
+
+  it('throws the last error when every target fails', async () => {
+    const client = new FallbackAIClient({
+      SIMPLE: [
+        { target: { provider: 'anthropic', model: 'a' }, client: failingClient(httpError(503)) },
+        { target: { provider: 'anthropic', model: 'b' }, client: failingClient(httpError(529)) },
+      ],
+    }, scriptedClient([]), silentLogger);
+
+    await expect(client.sendMessage(messages, [], 'SIMPLE')).rejects.toThrow('HTTP 529');
+  });
+
+  it('sends tiers without a chain to the primary client', async () => {
+    const primary = scriptedClient([modelMessage([{ type: 'text', text: 'from primary' }])]);
+    const client = new FallbackAIClient({
+      SIMPLE: [{ target: { provider: 'anthropic', model: 'a' }, client: failingClient(httpError(503)) }],
+    }, primary, silentLogger);
+
+    const response = await client.sendMessage(messages, [], 'ANALYTICAL');
+    expect(client.extractTextContent(response)).toBe('from primary');
+    expect(client.extractServedBy(response).failedOver).toBe(false);
+  });
+});
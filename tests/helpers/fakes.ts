@@ -0,0 +1,109 @@
+/**
+ * Test doubles for the model client, MCP manager and logger
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { AIClient } from '../../src/ai-client.interface';
+import { MCPClientManager } from '../../src/mcp-client';
+import { Logger } from '../../src/types';
+
+/**
+ * Logger that discards everything
+ */
+export const silentLogger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+} as unknown as Logger;
+
+/**
+ * Build a model response
+ */
+export function modelMessage(
+  content: Array<Record<string, unknown>>,
+  stopReason: Anthropic.Message['stop_reason'] = 'end_turn',
+  outputTokens: number = 10,
+  model: string = 'claude-sonnet-4-5-20250929'
+): Anthropic.Message {
+  return {
+    id: 'msg_test',
+    type: 'message',
+    role: 'assistant',
+    model,
+    content: content as unknown as Anthropic.ContentBlock[],
+    stop_reason: stopReason,
+    stop_sequence: null,
+    usage: { input_tokens: 100, output_tokens: outputTokens },
+  };
+}
+
+/**
+ * A model call the scripted client received
+ */
+export interface RecordedCall {
+  messages: Anthropic.MessageParam[];
+  maxTokens?: number;
+  toolChoice?: string;
+}
+
+/**
+ * AI client that returns scripted responses in order and records each call
+ */
+export function scriptedClient(responses: Anthropic.Message[], calls: RecordedCall[] = []): AIClient {
+  const next = (messages: Anthropic.MessageParam[], maxTokens?: number, toolChoice?: string) => {
+    calls.push({ messages: JSON.parse(JSON.stringify(messages)), maxTokens, toolChoice });
+    const response = responses.shift();
+    if (!response) {
+      throw new Error('No scripted response left');
+    }
+    return Promise.resolve(response);
+  };
+
+  return {
+    sendMessage: (messages, _tools, _tier, _signal, maxTokens, toolChoice) => next(messages, maxTokens, toolChoice),
+    streamMessage: (messages, _tools, _tier, _onEvent, _signal, maxTokens, toolChoice) =>
+      next(messages, maxTokens, toolChoice),
+    extractUsageStats: response => ({
+      input_tokens: response.usage.input_tokens,
+      output_tokens: response.usage.output_tokens,
+      cache_creation_tokens: 0,
+      cache_read_tokens: 0,
+    }),
+    extractTextContent: response => response.content
+      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join('\n'),
+    extractThinkingContent: () => undefined,
+    extractToolUses: response => response.content
+      .filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'),
+    hasToolUse: response => response.content.some(block => block.type === 'tool_use'),
+    extractServedBy: response => ({ provider: 'anthropic', model: response.model, failedOver: false }),
+  };
+}
+
+/**
+ * MCP manager with one tool per name; each tool call is recorded and answered by the given function
+ */
+export function fakeMcpManager(
+  toolNames: string[],
+  execute: (name: string, input: Record<string, unknown>) => string,
+  executed: string[] = []
+): MCPClientManager {
+  const fake = {
+    restoreScopeCategories: () => undefined,
+    getScopeCategories: () => [],
+    getTool: () => undefined,
+    getAnthropicTools: () => toolNames.map(name => ({
+      name,
+      description: `${name} tool`,
+      input_schema: { type: 'object', properties: {} },
+    })),
+    executeTool: async (name: string, input: Record<string, unknown>) => {
+      executed.push(name);
+      return { content: execute(name, input), isError: false, server: 'test' };
+    },
+    getToolServer: () => 'test',
+  };
+  return fake as unknown as MCPClientManager;
+}
@@ -0,0 +1,47 @@
+import { checkBudget, resolveRequestBudget, validateRequestBudget } from '../src/request-budget';
+import { UsageStats } from '../src/types';
+
+function usage(input: number, output: number, cacheRead: number = 0): UsageStats {
+  return { input_tokens: input, output_tokens: output, cache_creation_tokens: 0, cache_read_tokens: cacheRead };
+}
+
+describe('resolveRequestBudget', () => {
+  it('merges the request override over the level default', () => {
+    const defaults = { ANALYTICAL: { maxTotalTokens: 50000, maxCostUsd: 0.5 } };
+    expect(resolveRequestBudget(defaults, 'ANALYTICAL', { maxCostUsd: 0.1 }))
+      .toEqual({ maxTotalTokens: 50000, maxCostUsd: 0.1 });
+    expect(resolveRequestBudget(defaults, 'SIMPLE')).toBeUndefined();
+  });
+});
+
+describe('validateRequestBudget', () => {
+  it('accepts positive limits and names the problem otherwise', () => {
+    expect(validateRequestBudget({ maxOutputTokens: 1000 })).toBeUndefined();
+    expect(validateRequestBudget([])).toBe('must be an object');
+    expect(validateRequestBudget({ maxTokens: 10 })).toContain('unknown limit "maxTokens"');
+    expect(validateRequestBudget({ maxCostUsd: 0 })).toBe('"maxCostUsd" must be a positive number');
+  });
+});
+
+describe('checkBudget', () => {
+  it('counts cache reads as input and reports every reached limit', () => {
+    const report = checkBudget(
+      { maxInputTokens: 1500, maxOutputTokens: 1000, maxTotalTokens: 2000 },
+      [usage(500, 200, 500), usage(600, 300)],
+      ['claude-sonnet-4-5-20250929', 'claude-sonnet-4-5-20250929']
+    );
+
+    expect(report.inputTokens).toBe(1600);
+    expect(report.outputTokens).toBe(500);
+    expect(report.exceeded).toEqual(['maxInputTokens', 'maxTotalTokens']);
+  });
+
+  it('prices known models and skips the cost limit for unknown ones', () => {
+    const known = checkBudget({ maxCostUsd: 0.001 }, [usage(1000, 1000)], ['claude-sonnet-4-5-20250929']);
+    expect(known.costUsd).toBeGreaterThan(0.001);
+    expect(known.exceeded).toEqual(['maxCostUsd']);
+
+    const unknown = checkBudget({ maxCostUsd: 0.001 }, [usage(1000, 1000)], ['some-private-model']);
+    expect(unknown.exceeded).toEqual([]);
+  });
+});
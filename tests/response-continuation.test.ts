@@ -0,0 +1,90 @@
+import { DANIAgent } from '../src/agent';
+import {
+  TRUNCATION_NOTICE,
+  chooseRecovery,
+  nextMaxTokens,
+  stitchResponses,
+  toTruncatedAnswer,
+} from '../src/response-continuation';
+import { AppConfig } from '../src/types';
+import { RecordedCall, fakeMcpManager, modelMessage, scriptedClient, silentLogger } from './helpers/fakes';
+
+const thinking = { type: 'thinking', thinking: 'Planning the answer', signature: 'sig' };
+const halfToolCall = { type: 'tool_use', id: 'toolu_cut', name: 'list_devices', input: {} };
+
+describe('truncation recovery', () => {
+  it('continues cut-off text and retries cut-off tool calls', () => {
+    expect(chooseRecovery(modelMessage([{ type: 'text', text: 'There are' }], 'max_tokens'))).toBe('continue');
+    expect(chooseRecovery(modelMessage([{ type: 'text', text: 'Let me check' }, halfToolCall], 'max_tokens')))
+      .toBe('retry');
+    expect(chooseRecovery(modelMessage([thinking], 'max_tokens'))).toBe('retry');
+  });
+
+  it('doubles max_tokens up to the ceiling', () => {
+    expect(nextMaxTokens(modelMessage([], 'max_tokens', 4000), 32000)).toBe(8000);
+    expect(nextMaxTokens(modelMessage([], 'max_tokens', 20000), 32000)).toBe(32000);
+    expect(nextMaxTokens(modelMessage([], 'max_tokens', 32000), 32000)).toBeUndefined();
+  });
+
+  it('returns a notice when a truncated answer has no text left', () => {
+    const answer = toTruncatedAnswer(modelMessage([thinking, halfToolCall], 'max_tokens'));
+    expect(answer.content).toEqual([thinking, { type: 'text', text: TRUNCATION_NOTICE }]);
+  });
+});
+
+describe('stitchResponses', () => {
+  it('joins the continuation text and keeps thinking in front', () => {
+    const partial = modelMessage([thinking, { type: 'text', text: 'There are 12 ' }, halfToolCall], 'max_tokens');
+    const continuation = modelMessage([
+      { type: 'thinking', thinking: 'Continuing', signature: 'sig-2' },
+      { type: 'text', text: 'devices online.' },
+      { type: 'tool_use', id: 'toolu_next', name: 'get_device', input: { id: 'd1' } },
+    ]);
+
+    const stitched = stitchResponses(partial, continuation);
+    expect(stitched.content).toEqual([
+      thinking,
+      { type: 'text', text: 'There are 12 devices online.' },
+      { type: 'tool_use', id: 'toolu_next', name: 'get_device', input: { id: 'd1' } },
+    ]);
+    expect(stitched.stop_reason).toBe('end_turn');
+  });
+});
+
+describe('max_tokens retries in the agent', () => {
+  const agents: DANIAgent[] = [];
+
+  afterEach(async () => {
+    await Promise.all(agents.splice(0).map(agent => agent.shutdown()));
+  });
+
+  async function run(responses: ReturnType<typeof modelMessage>[], calls: RecordedCall[]) {
+    const agent = new DANIAgent(
+      scriptedClient(responses, calls),
+      fakeMcpManager(['list_devices'], () => '{"devices":[]}'),
+      { accuracyValidation: false } as unknown as AppConfig,
+      silentLogger
+    );
+    agents.push(agent);
+    return agent.processMessage('How many devices are online?', undefined, 'SIMPLE');
+  }
+
+  it('caps the retry at the output limit of the model that served the call', async () => {
+    const calls: RecordedCall[] = [];
+    const cutOff = modelMessage([halfToolCall], 'max_tokens', 8000, 'claude-3-5-haiku-20241022');
+    const result = await run([cutOff, modelMessage([{ type: 'text', text: 'All done.' }])], calls);
+
+    expect(calls.map(call => call.maxTokens)).toEqual([undefined, 8192]);
+    expect(result.response).toBe('All done.');
+  });
+
+  it('does not retry above the tier limit for models without a known output limit', async () => {
+    const calls: RecordedCall[] = [];
+    const cutOff = modelMessage([{ type: 'text', text: '' }], 'max_tokens', 8000, 'private-model');
+    const result = await run([cutOff], calls);
+
+    expect(calls).toHaveLength(1);
+    expect(result.truncated).toBe(true);
+    expect(result.response).toBe(TRUNCATION_NOTICE);
+  });
+});
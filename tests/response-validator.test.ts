@@ -0,0 +1,73 @@
+import { ResponseValidator, buildCorrectionPrompt } from '../src/response-validator';
+import { silentLogger } from './helpers/fakes';
+
+const devices = JSON.stringify({
+  devices: [
+    { id: 'a1', name: 'Router 45', status: 'disconnected', cpu: 10 },
+    { id: 'a2', name: 'Router 46', status: 'disconnected', cpu: 10 },
+    { id: 'a3', name: 'Gateway 7', status: 'never_connected', cpu: 20 },
+    { id: 'a4', name: 'Gateway 8', status: 'online', cpu: 20 },
+    { id: 'a5', name: 'Gateway 9', status: 'online', cpu: 30 },
+  ],
+});
+
+describe('ResponseValidator', () => {
+  const validator = new ResponseValidator(silentLogger);
+
+  it('accepts counts, group sums and complements found in the tool data', () => {
+    expect(validator.validate('There are 5 devices: 2 online and 3 offline devices.', [devices])).toEqual([]);
+    expect(validator.validate('2 of 5 devices (40%) are online.', [devices])).toEqual([]);
+  });
+
+  it('flags percentages that do not match their ratio', () => {
+    const issues = validator.validate('2 of 5 devices (45%) are online.', [devices]);
+    expect(issues).toEqual([expect.objectContaining({ type: 'percentage_mismatch' })]);
+  });
+
+  it('flags ratios whose part exceeds the total', () => {
+    const issues = validator.validate('7 of 5 devices are online.', [devices]);
+    expect(issues[0]).toMatchObject({ type: 'invalid_ratio' });
+  });
+
+  it('checks counts regardless of case', () => {
+    expect(validator.validate('Found 12 Devices.', [devices])).toEqual([
+      expect.objectContaining({ type: 'unsupported_count', claim: '12 Devices' }),
+    ]);
+    expect(validator.validate('There are 6 Offline gateways.', [devices])).toHaveLength(1);
+  });
+
+  it('does not read the numbers of device names as counts', () => {
+    expect(validator.validate('Router 45 and Router 46 are down.', [devices])).toEqual([]);
+    expect(validator.validate('Only the Paris 12 devices were checked.', [devices])).toEqual([]);
+  });
+
+  it('accepts numbers the user wrote', () => {
+    const text = 'None of the 12 devices you listed are in the inventory.';
+    expect(validator.validate(text, [devices])).toHaveLength(1);
+    expect(validator.validate(text, [devices], 'Check my 12 devices')).toEqual([]);
+  });
+
+  it('only adds sums for status-like fields', () => {
+    // Unique ids would allow every number up to 5, and the cpu counts (2 + 1) would allow 3
+    const inventory = JSON.stringify([
+      { id: 'a1', status: 'online', cpu: 10 },
+      { id: 'a2', status: 'online', cpu: 10 },
+      { id: 'a3', status: 'online', cpu: 20 },
+      { id: 'a4', status: 'online', cpu: 20 },
+      { id: 'a5', status: 'offline', cpu: 30 },
+    ]);
+    expect(validator.validate('4 online devices and 1 offline device.', [inventory])).toEqual([]);
+    expect(validator.validate('There are 3 offline devices.', [inventory])).toHaveLength(1);
+  });
+
+  it('skips count checks when the turn has no tool data', () => {
+    expect(validator.validate('There are 12 devices.', [])).toEqual([]);
+  });
+});
+
+describe('buildCorrectionPrompt', () => {
+  it('lists each issue', () => {
+    const prompt = buildCorrectionPrompt([{ type: 'unsupported_count', claim: '12 devices', message: 'first' }]);
+    expect(prompt).toContain('- first');
+  });
+});
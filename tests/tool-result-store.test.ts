@@ -0,0 +1,70 @@
+import { ToolResultBudget, findToolResultContent, queryJsonPath } from '../src/tool-result-store';
+import { Conversation } from '../src/types';
+
+const inventory = {
+  data: {
+    devices: [
+      { name: 'gw-1', status: 'online', site: { city: 'Paris' }, ports: 4 },
+      { name: 'gw-2', status: 'offline', site: { city: 'Lyon' }, ports: 8 },
+      { name: 'gw-3', status: 'offline', site: { city: 'Paris' }, ports: 16 },
+    ],
+  },
+};
+
+function conversation(): Conversation {
+  return {
+    id: 'conv-1',
+    messages: [],
+    createdAt: new Date(),
+    lastAccessedAt: new Date(),
+  } as unknown as Conversation;
+}
+
+describe('queryJsonPath', () => {
+  it('follows keys, indexes and wildcards', () => {
+    expect(queryJsonPath(inventory, '$.data.devices[0].name')).toEqual(['gw-1']);
+    expect(queryJsonPath(inventory, "data['devices'][-1].name")).toEqual(['gw-3']);
+    expect(queryJsonPath(inventory, 'data.devices[*].name')).toEqual(['gw-1', 'gw-2', 'gw-3']);
+    expect(queryJsonPath(inventory, 'data.devices[0].*')).toHaveLength(4);
+  });
+
+  it('filters on nested fields with comparison operators', () => {
+    expect(queryJsonPath(inventory, "data.devices[?(@.status=='offline')].name")).toEqual(['gw-2', 'gw-3']);
+    expect(queryJsonPath(inventory, "data.devices[?(@.site.city == 'Paris')].name")).toEqual(['gw-1', 'gw-3']);
+    expect(queryJsonPath(inventory, 'data.devices[?(@.ports >= 8)].name')).toEqual(['gw-2', 'gw-3']);
+  });
+
+  it('returns no matches for missing keys and rejects invalid paths', () => {
+    expect(queryJsonPath(inventory, 'data.sites[*]')).toEqual([]);
+    expect(() => queryJsonPath(inventory, 'data.devices[')).toThrow('unclosed');
+    expect(() => queryJsonPath(inventory, 'data.devices[name]')).toThrow('unsupported segment');
+  });
+});
+
+describe('ToolResultBudget', () => {
+  it('stores oversized results and serves pages and path queries from them', () => {
+    const budget = new ToolResultBudget(100, { 'list_*': 200 }, 50);
+    const conv = conversation();
+    const content = JSON.stringify({ ...inventory, padding: 'x'.repeat(300) });
+
+    expect(budget.getBudget('list_devices')).toBe(200);
+    const preview = budget.apply(conv, 'toolu_1', 'list_devices', content);
+    expect(preview).toContain('exceeds the 200 character budget');
+
+    const [stored] = conv.storedToolResults!;
+    expect(stored.content).toBe(content);
+    expect(findToolResultContent(conv, stored.handle)).toBe(content);
+
+    const page = budget.read(conv, { handle: stored.handle, offset: 0, limit: 40 });
+    expect(page.content).toContain(`characters 0-40 of ${content.length}; continue with offset 40`);
+
+    const query = budget.read(conv, { handle: stored.handle, path: "data.devices[?(@.status=='online')].name" });
+    expect(query.isError).toBe(false);
+    expect(query.content).toContain('"gw-1"');
+  });
+
+  it('reports unknown handles as errors', () => {
+    const result = new ToolResultBudget(100).read(conversation(), { handle: 'tr_missing' });
+    expect(result.isError).toBe(true);
+  });
+});